@@ -1,21 +1,61 @@
 ﻿import { EventBus } from "@/core/EventBus";
 import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { AIControlledComponent } from "@/entities/Components";
 import { EntityManager } from "@/entities/EntityManager";
-import { NPC, DialogueProvider, BehaviorProvider } from "@/entities/NPC";
 import { Vector2, NPCBehaviorDecision, DialogueResponse } from "@/types";
+import { RandomSource, RandomStreams } from "@/utils/RandomStreams";
 import { WorldManager } from "@/world/WorldManager";
 import { BehaviorTree, BehaviorContext } from "./BehaviorTree";
 import { DeepSeekController, DeepSeekConfig } from "./DeepSeekController";
 import { DialogueContext, KimiConfig, KimiController } from "./KimiController";
+import { createGenericArchetype } from "./NPCArchetypes";
+import { REJECTED_BY_PRIORITY } from "./NPCActionSystem";
+import { Relationship, RelationshipSystem } from "./RelationshipSystem";
+import { SCHEDULE_PRIORITY } from "./ScheduleSystem";
 
 interface NPCState {
-  npc: NPC;
+  npc: BaseEntity;
+  decisionCooldown: number;
+  hunger: number;
+  fatigue: number;
+}
+
+export interface NPCStateSnapshot {
+  npcId: string;
   decisionCooldown: number;
   hunger: number;
   health: number;
   fatigue: number;
 }
 
+export interface AIManagerSnapshot {
+  callBudget: number;
+  budgetTimer: number;
+  npcStates: NPCStateSnapshot[];
+}
+
+/**
+ * 大模型调用统计。fallbackRate 为改用本地行为树或模板应答的请求占比，
+ * averageLatency 只统计实际发出的请求（毫秒）
+ */
+export interface AIStats {
+  inFlight: number;
+  remainingBudget: number;
+  maxCallsPerHour: number;
+  requests: number;
+  fallbacks: number;
+  fallbackRate: number;
+  averageLatency: number;
+}
+
+const LATENCY_WINDOW = 50;
+/** 行为失败后重新决策的等待时间（秒） */
+const RETRY_COOLDOWN = 1;
+/** 完成进食、睡眠后需求的下降量 */
+const EAT_RELIEF = 50;
+const SLEEP_RELIEF = 60;
+
 export interface AIManagerOptions {
   maxCallsPerHour: number;
   deepSeek: DeepSeekConfig;
@@ -25,6 +65,7 @@ export interface AIManagerOptions {
 export class AIManager implements GameSystem {
   public readonly name = "ai";
   public readonly priority = 50;
+  public readonly dependsOn = ["world", "entities"];
 
   private readonly tree = new BehaviorTree();
   private readonly deepSeek: DeepSeekController;
@@ -33,13 +74,22 @@ export class AIManager implements GameSystem {
   private readonly npcStates = new Map<string, NPCState>();
   private aiCallBudget: number;
   private budgetTimer = 0;
+  private random: RandomSource;
+  private externalDecisions = false;
+  private inFlight = 0;
+  private requestCount = 0;
+  private fallbackCount = 0;
+  private readonly latencies: number[] = [];
 
   constructor(
     private readonly world: WorldManager,
     private readonly entities: EntityManager,
+    private readonly relationships: RelationshipSystem,
     private readonly eventBus: EventBus,
     private readonly options: AIManagerOptions,
+    random: RandomStreams,
   ) {
+    this.random = random.stream("ai");
     this.deepSeek = new DeepSeekController(options.deepSeek);
     this.kimi = new KimiController(options.kimi);
     this.aiCallBudget = options.maxCallsPerHour;
@@ -47,10 +97,33 @@ export class AIManager implements GameSystem {
 
   initialize(): void {
     this.eventBus.on("entity:added", ({ entity }) => {
-      if (entity instanceof NPC) {
-        this.registerNPC(entity);
+      const controlled = entity.getComponent("aiControlled");
+      if (controlled) {
+        this.registerNPC(entity, controlled);
+      }
+    });
+
+    this.eventBus.on("entity:removed", ({ entityId }) => {
+      this.npcStates.delete(entityId);
+    });
+
+    // 行为完成时按行为恢复需求，失败时尽快重新决策；
+    // 因优先级不够被拒绝时当前行为仍在进行，立即重试只会再次被拒绝
+    this.eventBus.on("npc:action", ({ npc, decision, status, reason }) => {
+      const state = this.npcStates.get(npc.id);
+      if (!state) return;
+      if (status === "completed") {
+        this.applyActionEffects(state, decision);
+      } else if (status === "failed" && reason !== REJECTED_BY_PRIORITY) {
+        state.decisionCooldown = Math.min(state.decisionCooldown, RETRY_COOLDOWN);
       }
     });
+
+    // 受到攻击时立即重新决策，而不是等到下一次冷却结束
+    this.eventBus.on("combat:damage", ({ target }) => {
+      const state = this.npcStates.get(target.id);
+      if (state) state.decisionCooldown = 0;
+    });
   }
 
   update(delta: number): void {
@@ -63,60 +136,160 @@ export class AIManager implements GameSystem {
     for (const state of this.npcStates.values()) {
       state.decisionCooldown -= delta / 1000;
       if (state.decisionCooldown <= 0) {
-        this.evaluateBehavior(state).catch((error) => {
-          console.error("[AIManager] Failed to evaluate behavior", error);
-        });
-        state.decisionCooldown = 8 + Math.random() * 4;
+        // 先设置冷却，本地行为树同步发出的决策失败时才能缩短它
+        state.decisionCooldown = 8 + this.random() * 4;
+        if (!this.externalDecisions) {
+          this.evaluateBehavior(state).catch((error) => {
+            console.error("[AIManager] Failed to evaluate behavior", error);
+          });
+        }
       }
     }
   }
 
-  async requestDialogue(npc: NPC, playerMessage: string): Promise<DialogueResponse> {
-    const state = this.npcStates.get(npc.id);
+  async requestDialogue(npc: BaseEntity, playerMessage: string): Promise<DialogueResponse> {
+    // 先按这句话的语气调整关系，NPC 的回应反映调整后的态度
+    this.relationships.recordDialogue(npc, playerMessage);
+    const relationship = this.relationships.getRelationship(npc);
     const fallback: DialogueResponse = {
-      speaker: npc.name,
+      speaker: npc.getDisplayName(),
       text: "你好，旅行者。",
       emotion: "neutral",
     };
 
+    const archetype = npc.getComponent("persona")?.archetype ?? createGenericArchetype(npc.getDisplayName(), npc.getBody().position);
     const context: DialogueContext = {
-      npcName: npc.name,
-      profession: "镇民",
-      personality: "温和，乐于助人",
-      backstory: "村庄的老居民，对附近环境非常熟悉。",
+      npcName: archetype.name,
+      profession: archetype.profession,
+      personality: archetype.personality,
+      backstory: archetype.backstory,
+      dialogueStyle: archetype.dialogueStyle,
       playerMessage,
-      affection: state ? 60 : 50,
-      mood: "calm",
+      affection: relationship.affection,
+      trust: relationship.trust,
+      mood: moodOf(relationship),
     };
 
+    this.requestCount += 1;
     if (!this.kimi.isEnabled() || this.aiCallBudget <= 0) {
+      this.fallbackCount += 1;
       return fallback;
     }
 
-    const response = await this.kimi.generateDialogue(context);
+    const response = await this.trackCall(() => this.kimi.generateDialogue(context, () => {
+      this.fallbackCount += 1;
+    }));
     this.aiCallBudget -= 1;
     return response;
   }
 
+  /**
+   * 开始新世界时切换到新种子的随机数流，并丢弃旧世界的NPC状态
+   */
+  reset(random: RandomStreams): void {
+    this.random = random.stream("ai");
+    this.npcStates.clear();
+  }
+
+  getBehaviorTree(): BehaviorTree {
+    return this.tree;
+  }
+
   getRemainingBudget(): number {
     return this.aiCallBudget;
   }
 
-  private registerNPC(npc: NPC): void {
-    const state: NPCState = {
-      npc,
-      decisionCooldown: 2,
-      hunger: 30 + Math.random() * 20,
-      health: 70 + Math.random() * 30,
-      fatigue: 20 + Math.random() * 30,
+  getStats(): AIStats {
+    const latencyTotal = this.latencies.reduce((sum, value) => sum + value, 0);
+    return {
+      inFlight: this.inFlight,
+      remainingBudget: this.aiCallBudget,
+      maxCallsPerHour: this.options.maxCallsPerHour,
+      requests: this.requestCount,
+      fallbacks: this.fallbackCount,
+      fallbackRate: this.requestCount === 0 ? 0 : this.fallbackCount / this.requestCount,
+      averageLatency: this.latencies.length === 0 ? 0 : latencyTotal / this.latencies.length,
     };
-    this.npcStates.set(npc.id, state);
+  }
+
+  /**
+   * 恢复满额的调用预算并重新开始计时
+   */
+  resetBudget(): void {
+    this.aiCallBudget = this.options.maxCallsPerHour;
+    this.budgetTimer = 0;
+  }
+
+  getNPCState(npcId: string): NPCStateSnapshot | null {
+    const state = this.npcStates.get(npcId);
+    return state ? toSnapshot(state) : null;
+  }
 
-    const dialogueProvider: DialogueProvider = (entity) => this.requestDialogue(entity, "你好");
-    npc.setDialogueProvider(dialogueProvider);
+  /**
+   * 启用后不再自行评估行为，决策改由外部（如回放）通过 applyDecision 注入
+   */
+  setExternalDecisions(enabled: boolean): void {
+    this.externalDecisions = enabled;
+  }
+
+  applyDecision(npcId: string, decision: NPCBehaviorDecision): void {
+    const state = this.npcStates.get(npcId);
+    if (!state) return;
+    this.eventBus.emit("npc:behavior", { npc: state.npc, decision });
+  }
+
+  serialize(): AIManagerSnapshot {
+    return {
+      callBudget: this.aiCallBudget,
+      budgetTimer: this.budgetTimer,
+      npcStates: [...this.npcStates.values()].map(toSnapshot),
+    };
+  }
+
+  /**
+   * 恢复AI预算与NPC状态；entityMap 将存档中的实体ID映射到恢复后的实体
+   */
+  restore(snapshot: AIManagerSnapshot, entityMap: Map<string, BaseEntity>): void {
+    this.aiCallBudget = snapshot.callBudget;
+    this.budgetTimer = snapshot.budgetTimer;
+
+    for (const saved of snapshot.npcStates) {
+      const entity = entityMap.get(saved.npcId);
+      const state = entity ? this.npcStates.get(entity.id) : undefined;
+      if (!state) continue;
+      state.decisionCooldown = saved.decisionCooldown;
+      state.hunger = saved.hunger;
+      state.fatigue = saved.fatigue;
+      const health = state.npc.getComponent("health");
+      if (health) health.current = saved.health;
+    }
+  }
+
+  private applyActionEffects(state: NPCState, decision: NPCBehaviorDecision): void {
+    switch (decision.action) {
+      case "EAT":
+        state.hunger = Math.max(0, state.hunger - EAT_RELIEF);
+        break;
+      case "SLEEP":
+        state.fatigue = Math.max(0, state.fatigue - SLEEP_RELIEF);
+        break;
+    }
+  }
 
-    const behaviorProvider: BehaviorProvider = (entity) => this.evaluateBehavior(this.npcStates.get(entity.id)!);
-    npc.setBehaviorProvider(behaviorProvider);
+  private registerNPC(npc: BaseEntity, controlled: AIControlledComponent): void {
+    // 有角色设定时使用设定中的初始需求，否则随机生成
+    const needs = npc.getComponent("persona")?.archetype.needs;
+    const hunger = needs?.hunger ?? 30 + this.random() * 20;
+    const initialHealth = needs?.health ?? 70 + this.random() * 30;
+    const fatigue = needs?.fatigue ?? 20 + this.random() * 30;
+    const health = npc.getComponent("health");
+    if (health) health.current = Math.min(health.max, initialHealth);
+
+    const state: NPCState = { npc, decisionCooldown: 2, hunger, fatigue };
+    this.npcStates.set(npc.id, state);
+
+    controlled.dialogueProvider = (entity) => this.requestDialogue(entity, "你好");
+    controlled.behaviorProvider = (entity) => this.evaluateBehavior(this.npcStates.get(entity.id)!);
   }
 
   private async evaluateBehavior(state: NPCState): Promise<NPCBehaviorDecision> {
@@ -126,27 +299,72 @@ export class AIManager implements GameSystem {
     const distance = Math.hypot(playerPos.x - npcPos.x, playerPos.y - npcPos.y);
 
     const worldState = this.world.getState();
+    const relationship = this.relationships.getRelationship(state.npc);
     const context: BehaviorContext = {
       npcId: state.npc.id,
       hunger: state.hunger,
-      health: state.health,
+      health: state.npc.getComponent("health")?.current ?? 100,
       fatigue: state.fatigue,
       worldTime: worldState.timeOfDay,
       distanceToPlayer: distance,
       weather: worldState.weather,
+      affection: relationship.affection,
+      trust: relationship.trust,
+      hostileToPlayer: this.relationships.isHostile(state.npc),
     };
 
-    const fallback = () => this.tree.evaluate(context);
+    // 有日程的 NPC 平时按日程行动：先用本地行为树判断，只有紧急需求或玩家互动时才接管并调用大模型
+    if (state.npc.getComponent("persona")?.archetype.schedule.length) {
+      const local = this.tree.evaluate(context);
+      if (local.priority <= SCHEDULE_PRIORITY) return local;
+    }
 
+    const fallback = () => {
+      this.fallbackCount += 1;
+      return this.tree.evaluate(context);
+    };
+
+    this.requestCount += 1;
     if (!this.deepSeek.isEnabled() || this.aiCallBudget <= 0) {
       const decision = fallback();
       this.eventBus.emit("npc:behavior", { npc: state.npc, decision });
       return decision;
     }
 
-    const decision = await this.deepSeek.decideBehavior(context, fallback);
+    const decision = await this.trackCall(() => this.deepSeek.decideBehavior(context, fallback));
     this.aiCallBudget -= 1;
     this.eventBus.emit("npc:behavior", { npc: state.npc, decision });
     return decision;
   }
+
+  /**
+   * 统计进行中的请求数与请求耗时
+   */
+  private async trackCall<T>(call: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    this.inFlight += 1;
+    try {
+      return await call();
+    } finally {
+      this.inFlight -= 1;
+      this.latencies.push(performance.now() - start);
+      if (this.latencies.length > LATENCY_WINDOW) {
+        this.latencies.shift();
+      }
+    }
+  }
+}
+
+/**
+ * 对话提示词中的心情，由对玩家的好感决定
+ */
+function moodOf({ affection }: Relationship): string {
+  if (affection >= 70) return "friendly";
+  if (affection <= 30) return "cold";
+  return "calm";
+}
+
+function toSnapshot({ npc, decisionCooldown, hunger, fatigue }: NPCState): NPCStateSnapshot {
+  const health = npc.getComponent("health")?.current ?? 100;
+  return { npcId: npc.id, decisionCooldown, hunger, health, fatigue };
 }
@@ -9,11 +9,29 @@ export interface BehaviorContext {
   worldTime: number;
   distanceToPlayer: number;
   weather: WeatherState;
+  /** 对玩家的好感与信任（0-100） */
+  affection: number;
+  trust: number;
+  /** 阵营敌对或好感降到谷底，见到玩家会攻击 */
+  hostileToPlayer: boolean;
 }
 
-export class BehaviorTree {
-  evaluate(context: BehaviorContext): NPCBehaviorDecision {
-    if (context.health < 40) {
+/**
+ * 行为树的条件节点：条件满足时返回决策，否则返回 null 交给下一个节点
+ */
+export interface BehaviorNode {
+  id: string;
+  /** 数值越大越先评估 */
+  priority: number;
+  evaluate(context: BehaviorContext): NPCBehaviorDecision | null;
+}
+
+const BUILTIN_NODES: BehaviorNode[] = [
+  {
+    id: "flee-low-health",
+    priority: 100,
+    evaluate: (context) => {
+      if (context.health >= 40) return null;
       return {
         action: "FLEE",
         target: "safe_zone",
@@ -21,9 +39,13 @@ export class BehaviorTree {
         duration: 8,
         reasoning: "生命值过低，优先撤退至安全区域",
       };
-    }
-
-    if (context.hunger > 70) {
+    },
+  },
+  {
+    id: "eat-when-hungry",
+    priority: 80,
+    evaluate: (context) => {
+      if (context.hunger <= 70) return null;
       return {
         action: "EAT",
         target: "nearest_food",
@@ -31,9 +53,14 @@ export class BehaviorTree {
         duration: 6,
         reasoning: "饥饿度过高，需要寻找食物补给",
       };
-    }
-
-    if (context.fatigue > 60 && (context.worldTime > 22 || context.worldTime < 6)) {
+    },
+  },
+  {
+    id: "sleep-at-night",
+    priority: 70,
+    evaluate: (context) => {
+      const isNight = context.worldTime > 22 || context.worldTime < 6;
+      if (context.fatigue <= 60 || !isNight) return null;
       return {
         action: "SLEEP",
         target: "home",
@@ -41,16 +68,49 @@ export class BehaviorTree {
         duration: 12,
         reasoning: "夜间且疲劳值较高，返回休息",
       };
-    }
-
-    if (context.distanceToPlayer < 120 && context.weather.visibility > 0.5) {
+    },
+  },
+  {
+    id: "interact-with-player",
+    priority: 60,
+    evaluate: (context) => {
+      if (context.distanceToPlayer >= 120 || context.weather.visibility <= 0.5) return null;
+      if (context.hostileToPlayer || context.affection < 40) return null;
       return {
         action: "INTERACT",
         target: "player",
         priority: 6,
         duration: 4,
-        reasoning: "玩家接近且环境良好，适合互动交流",
+        reasoning: "玩家接近、关系融洽且环境良好，适合互动交流",
       };
+    },
+  },
+];
+
+/**
+ * 按优先级依次评估条件节点的选择器，没有节点命中时巡逻；
+ * 插件可以通过 addNode 插入新的行为
+ */
+export class BehaviorTree {
+  private nodes: BehaviorNode[] = [...BUILTIN_NODES];
+
+  addNode(node: BehaviorNode): void {
+    this.nodes = [...this.nodes.filter((existing) => existing.id !== node.id), node]
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  removeNode(id: string): void {
+    this.nodes = this.nodes.filter((node) => node.id !== id);
+  }
+
+  getNodes(): BehaviorNode[] {
+    return [...this.nodes];
+  }
+
+  evaluate(context: BehaviorContext): NPCBehaviorDecision {
+    for (const node of this.nodes) {
+      const decision = node.evaluate(context);
+      if (decision) return decision;
     }
 
     return {
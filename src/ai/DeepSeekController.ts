@@ -69,7 +69,7 @@ export class DeepSeekController {
   }
 
   private buildPrompt(context: BehaviorContext): string {
-    return `角色信息：\n- NPC ID：${context.npcId}\n- 生命值：${context.health}\n- 饥饿度：${context.hunger}\n- 疲劳度：${context.fatigue}\n\n环境信息：\n- 当前时间：${context.worldTime.toFixed(2)}\n- 天气：${context.weather.type}\n- 天气能见度：${context.weather.visibility}\n- 与玩家距离：${context.distanceToPlayer.toFixed(2)}\n\n请根据以上信息返回一个JSON，包含action、target、priority、duration、reasoning。`;
+    return `角色信息：\n- NPC ID：${context.npcId}\n- 生命值：${context.health}\n- 饥饿度：${context.hunger}\n- 疲劳度：${context.fatigue}\n\n环境信息：\n- 当前时间：${context.worldTime.toFixed(2)}\n- 天气：${context.weather.type}\n- 天气能见度：${context.weather.visibility}\n- 与玩家距离：${context.distanceToPlayer.toFixed(2)}\n\n与玩家的关系：\n- 好感度：${context.affection}\n- 信任度：${context.trust}\n- 是否敌对：${context.hostileToPlayer ? "是" : "否"}\n\n请根据以上信息返回一个JSON，包含action、target、priority、duration、reasoning。`;
   }
 
   private parseResponse(raw: string): NPCBehaviorDecision | null {
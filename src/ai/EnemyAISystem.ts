@@ -0,0 +1,253 @@
+import { Body } from "matter-js";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { MonsterAIComponent, MonsterState } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { Vector2 } from "@/types";
+import { clamp, randRange, TAU } from "@/utils/MathUtils";
+import { RandomSource, RandomStreams } from "@/utils/RandomStreams";
+import { WorldManager } from "@/world/WorldManager";
+import { RelationshipSystem } from "./RelationshipSystem";
+
+/** 能见度再低也至少保留的发现距离比例 */
+const MIN_VISIBILITY = 0.2;
+/** 目标超出发现距离的该倍数后失去兴趣 */
+const LOSE_INTEREST_FACTOR = 1.5;
+/** 感知范围为发现距离的该倍数，覆盖追击和逃跑需要关注的全部距离 */
+const PERCEPTION_FACTOR = 2;
+const ARRIVE_DISTANCE = 10;
+
+interface Perception {
+  position: Vector2;
+  target: Vector2 | null;
+  distanceToTarget: number;
+  distanceFromHome: number;
+  aggroRadius: number;
+}
+
+/**
+ * 怪物状态机：待机、巡逻、发现、追击、攻击（前摇与冷却）、远程射击、低血逃跑、
+ * 超出拉扯距离后返回出生点。参数来自 MonsterProfiles
+ */
+export class EnemyAISystem implements GameSystem {
+  public readonly name = "enemy-ai";
+  public readonly priority = 60;
+  public readonly dependsOn = ["world", "entities"];
+
+  private random: RandomSource;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly world: WorldManager,
+    private readonly relationships: RelationshipSystem,
+    private readonly eventBus: EventBus,
+    random: RandomStreams,
+  ) {
+    this.random = random.stream("enemy-ai");
+  }
+
+  initialize(): void {}
+
+  update(delta: number): void {
+    const visibility = clamp(this.world.getState().weather.visibility, MIN_VISIBILITY, 1);
+
+    for (const entity of this.entities.query("monsterAI", "physicsBody")) {
+      const ai = entity.requireComponent("monsterAI");
+      ai.stateTime += delta;
+
+      // 硬直期间交给物理处理击退
+      if (entity.getComponent("health")?.staggerTime) continue;
+
+      const position = entity.getBody().position;
+      const aggroRadius = ai.profile.aggroRadius * visibility;
+      const target = this.findTarget(entity, position, aggroRadius * PERCEPTION_FACTOR);
+      const perception: Perception = {
+        position,
+        target,
+        distanceToTarget: target ? distance(position, target) : Infinity,
+        distanceFromHome: distance(position, ai.home),
+        aggroRadius,
+      };
+      this.step(entity, ai, perception);
+    }
+  }
+
+  /**
+   * 开始新世界时切换到新种子的随机数流
+   */
+  reset(random: RandomStreams): void {
+    this.random = random.stream("enemy-ai");
+  }
+
+  private step(entity: BaseEntity, ai: MonsterAIComponent, perception: Perception): void {
+    const { profile } = ai;
+    const { target, distanceToTarget, distanceFromHome, aggroRadius } = perception;
+    const canSeeTarget = distanceToTarget <= aggroRadius;
+    const lostTarget = distanceToTarget > aggroRadius * LOSE_INTEREST_FACTOR;
+
+    const health = entity.getComponent("health");
+    const shouldFlee = profile.fleeHealth > 0 && health !== undefined && health.current / health.max < profile.fleeHealth;
+    if (shouldFlee && ai.state !== "flee" && ai.state !== "return" && target) {
+      this.transition(entity, ai, "flee");
+    }
+
+    switch (ai.state) {
+      case "idle":
+        this.stop(entity);
+        if (canSeeTarget) {
+          this.transition(entity, ai, "notice");
+        } else if (ai.stateTime >= ai.idleDuration) {
+          ai.patrolTarget = this.pickPatrolTarget(ai);
+          this.transition(entity, ai, "patrol");
+        }
+        break;
+
+      case "patrol":
+        if (canSeeTarget) {
+          this.transition(entity, ai, "notice");
+        } else if (!ai.patrolTarget || this.moveTowards(entity, ai.patrolTarget, profile.patrolSpeed)) {
+          this.enterIdle(entity, ai);
+        }
+        break;
+
+      case "notice":
+        this.stop(entity);
+        if (lostTarget) {
+          this.enterIdle(entity, ai);
+        } else if (ai.stateTime >= profile.noticeTime) {
+          this.transition(entity, ai, "chase");
+        }
+        break;
+
+      case "chase": {
+        if (!target || lostTarget || distanceFromHome > profile.leashRadius) {
+          this.transition(entity, ai, "return");
+          break;
+        }
+        const combat = entity.getComponent("combat");
+        const ranged = entity.getComponent("ranged");
+        if (distanceToTarget <= profile.attackRange) {
+          this.stop(entity);
+          if (combat && combat.cooldownRemaining === 0) {
+            this.transition(entity, ai, "attack");
+          }
+        } else if (profile.ranged && ranged?.cooldownRemaining === 0 && distanceToTarget <= profile.ranged.range) {
+          this.stop(entity);
+          this.transition(entity, ai, "shoot");
+        } else {
+          this.moveTowards(entity, target, profile.speed);
+        }
+        break;
+      }
+
+      case "attack":
+        // 前摇期间原地不动，结束时朝目标当前位置出手
+        this.stop(entity);
+        if (ai.stateTime >= profile.attackWindup) {
+          const combat = entity.getComponent("combat");
+          if (combat && target) {
+            combat.pendingAttack = { x: target.x - perception.position.x, y: target.y - perception.position.y };
+          }
+          this.transition(entity, ai, "chase");
+        }
+        break;
+
+      case "shoot":
+        // 与近战共用前摇时间，结束时朝目标当前位置发射
+        this.stop(entity);
+        if (ai.stateTime >= profile.attackWindup) {
+          const ranged = entity.getComponent("ranged");
+          if (ranged && target) {
+            ranged.pendingShot = { x: target.x - perception.position.x, y: target.y - perception.position.y };
+          }
+          this.transition(entity, ai, "chase");
+        }
+        break;
+
+      case "flee":
+        if (!target || distanceToTarget > aggroRadius * 2 || distanceFromHome > profile.leashRadius * 1.5) {
+          this.transition(entity, ai, "return");
+          break;
+        }
+        this.moveAwayFrom(entity, target, profile.speed);
+        break;
+
+      case "return":
+        // 返回途中不理会玩家，到家后回满生命
+        if (this.moveTowards(entity, ai.home, profile.speed)) {
+          if (health) health.current = health.max;
+          this.enterIdle(entity, ai);
+        }
+        break;
+    }
+  }
+
+  /**
+   * 感知范围内最近的存活玩家；怪物所属阵营不再敌视玩家时没有目标
+   */
+  private findTarget(entity: BaseEntity, position: Vector2, range: number): Vector2 | null {
+    const faction = entity.getComponent("faction")?.id;
+    if (faction && !this.relationships.isFactionHostile(faction)) return null;
+    const player = this.entities.nearest(position, "player", isAlive, range);
+    return player ? player.getBody().position : null;
+  }
+
+  private enterIdle(entity: BaseEntity, ai: MonsterAIComponent): void {
+    const [min, max] = ai.profile.idleTime;
+    ai.idleDuration = randRange(min, max, this.random);
+    ai.patrolTarget = null;
+    this.transition(entity, ai, "idle");
+  }
+
+  private pickPatrolTarget(ai: MonsterAIComponent): Vector2 {
+    const angle = this.random() * TAU;
+    const radius = Math.sqrt(this.random()) * ai.profile.patrolRadius;
+    return { x: ai.home.x + Math.cos(angle) * radius, y: ai.home.y + Math.sin(angle) * radius };
+  }
+
+  private transition(entity: BaseEntity, ai: MonsterAIComponent, next: MonsterState): void {
+    if (ai.state === next) return;
+    const previous = ai.state;
+    ai.state = next;
+    ai.stateTime = 0;
+    this.eventBus.emit("enemy:state", { entity, state: next, previous });
+  }
+
+  /**
+   * 朝目标移动；已到达时停下并返回 true
+   */
+  private moveTowards(entity: BaseEntity, target: Vector2, speed: number): boolean {
+    const body = entity.getBody();
+    const dx = target.x - body.position.x;
+    const dy = target.y - body.position.y;
+    const length = Math.hypot(dx, dy);
+    if (length <= ARRIVE_DISTANCE) {
+      this.stop(entity);
+      return true;
+    }
+    Body.setVelocity(body, { x: (dx / length) * speed, y: (dy / length) * speed });
+    return false;
+  }
+
+  private moveAwayFrom(entity: BaseEntity, threat: Vector2, speed: number): void {
+    const body = entity.getBody();
+    const dx = body.position.x - threat.x;
+    const dy = body.position.y - threat.y;
+    const length = Math.hypot(dx, dy) || 1;
+    Body.setVelocity(body, { x: (dx / length) * speed, y: (dy / length) * speed });
+  }
+
+  private stop(entity: BaseEntity): void {
+    Body.setVelocity(entity.getBody(), { x: 0, y: 0 });
+  }
+}
+
+function isAlive(entity: BaseEntity): boolean {
+  const health = entity.getComponent("health");
+  return !health || health.current > 0;
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -5,8 +5,12 @@ export interface DialogueContext {
   profession: string;
   personality: string;
   backstory: string;
+  /** 说话方式 */
+  dialogueStyle: string;
   playerMessage: string;
+  /** 对玩家的好感与信任（0-100） */
   affection: number;
+  trust: number;
   mood: string;
 }
 
@@ -31,8 +35,12 @@ export class KimiController {
     return this.enabled;
   }
 
-  async generateDialogue(context: DialogueContext): Promise<DialogueResponse> {
+  /**
+   * onFallback 在未能得到模型回复、改用本地模板时调用
+   */
+  async generateDialogue(context: DialogueContext, onFallback?: () => void): Promise<DialogueResponse> {
     if (!this.enabled || typeof fetch === "undefined") {
+      onFallback?.();
       return this.generateFallback(context);
     }
 
@@ -70,12 +78,13 @@ export class KimiController {
       };
     } catch (error) {
       console.warn("[KimiController] Falling back to本地对话:", error);
+      onFallback?.();
       return this.generateFallback(context);
     }
   }
 
   private buildPrompt(context: DialogueContext): string {
-    return `你是${context.npcName}，一个${context.profession}。\n性格特征：${context.personality}\n背景故事：${context.backstory}\n心情：${context.mood}\n对玩家好感度：${context.affection}\n玩家说：“${context.playerMessage}”。\n回复要求：30-80字，口语化，保持角色一致。`;
+    return `你是${context.npcName}，一个${context.profession}。\n性格特征：${context.personality}\n背景故事：${context.backstory}\n说话方式：${context.dialogueStyle}\n心情：${context.mood}\n对玩家好感度：${context.affection}\n对玩家信任度：${context.trust}\n玩家说：“${context.playerMessage}”。\n回复要求：30-80字，口语化，保持角色一致。`;
   }
 
   private generateFallback(context: DialogueContext): DialogueResponse {
@@ -0,0 +1,131 @@
+/**
+ * 单个怪物种类的行为参数。距离单位为像素，时间单位为毫秒
+ */
+export interface MonsterProfile {
+  maxHealth: number;
+  /** 追击速度 */
+  speed: number;
+  /** 巡逻速度 */
+  patrolSpeed: number;
+  /** 以出生点为中心的巡逻范围 */
+  patrolRadius: number;
+  /** 每次巡逻前停留的时间范围 */
+  idleTime: [number, number];
+  /** 晴天下发现玩家的距离，实际距离乘以天气能见度 */
+  aggroRadius: number;
+  /** 发现玩家到开始追击之间的反应时间 */
+  noticeTime: number;
+  /** 离开出生点超过该距离后放弃追击并返回 */
+  leashRadius: number;
+  attackRange: number;
+  /** 攻击扇形张角（弧度） */
+  attackArc: number;
+  attackWindup: number;
+  attackCooldown: number;
+  damage: number;
+  knockback: number;
+  /** 生命低于该比例时逃跑，0 表示从不逃跑 */
+  fleeHealth: number;
+  /** 击杀后获得的经验，省略时为 10 */
+  experience?: number;
+  /** 动画集ID，省略时使用怪物名 */
+  sprite?: string;
+  /** 远程攻击：目标在近战距离之外、range 之内时经过 attackWindup 前摇后发射 projectile */
+  ranged?: MonsterRangedAttack;
+}
+
+export interface MonsterRangedAttack {
+  projectile: string;
+  range: number;
+  cooldown: number;
+}
+
+export const DEFAULT_MONSTER = "荒野巨蜥";
+
+const profiles = new Map<string, MonsterProfile>([
+  [
+    "荒野巨蜥",
+    {
+      maxHealth: 60,
+      speed: 2.5,
+      patrolSpeed: 1.2,
+      patrolRadius: 120,
+      idleTime: [1500, 4000],
+      aggroRadius: 220,
+      noticeTime: 600,
+      leashRadius: 450,
+      attackRange: 55,
+      attackArc: Math.PI * 0.5,
+      attackWindup: 500,
+      attackCooldown: 1400,
+      damage: 12,
+      knockback: 10,
+      fleeHealth: 0,
+      experience: 25,
+      sprite: "lizard",
+    },
+  ],
+  [
+    "雪原狼",
+    {
+      maxHealth: 40,
+      speed: 3.6,
+      patrolSpeed: 1.8,
+      patrolRadius: 220,
+      idleTime: [800, 2000],
+      aggroRadius: 300,
+      noticeTime: 300,
+      leashRadius: 600,
+      attackRange: 45,
+      attackArc: Math.PI * 0.4,
+      attackWindup: 250,
+      attackCooldown: 900,
+      damage: 8,
+      knockback: 6,
+      fleeHealth: 0.3,
+      experience: 20,
+      sprite: "wolf",
+    },
+  ],
+  [
+    "沼泽毒蛙",
+    {
+      maxHealth: 25,
+      speed: 1.8,
+      patrolSpeed: 0.8,
+      patrolRadius: 60,
+      idleTime: [3000, 6000],
+      aggroRadius: 140,
+      noticeTime: 900,
+      leashRadius: 250,
+      attackRange: 50,
+      attackArc: Math.PI * 0.6,
+      attackWindup: 700,
+      attackCooldown: 2000,
+      damage: 6,
+      knockback: 4,
+      fleeHealth: 0.5,
+      experience: 10,
+      sprite: "frog",
+      ranged: { projectile: "spit", range: 180, cooldown: 2500 },
+    },
+  ],
+]);
+
+/**
+ * 注册或覆盖怪物参数，插件可以借此添加新的怪物种类
+ */
+export function registerMonsterProfile(monsterName: string, profile: MonsterProfile): void {
+  profiles.set(monsterName, profile);
+}
+
+/**
+ * 未登记的怪物使用荒野巨蜥的参数
+ */
+export function getMonsterProfile(monsterName: string): MonsterProfile {
+  return profiles.get(monsterName) ?? profiles.get(DEFAULT_MONSTER)!;
+}
+
+export function listMonsterProfiles(): string[] {
+  return [...profiles.keys()];
+}
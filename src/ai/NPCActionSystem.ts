@@ -0,0 +1,362 @@
+import { Body, Sleeping } from "matter-js";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { NPCActionComponent, NPCActivity } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { NPCBehaviorDecision, Vector2 } from "@/types";
+import { TAU } from "@/utils/MathUtils";
+import { RandomSource, RandomStreams } from "@/utils/RandomStreams";
+import { Pathfinder } from "@/world/Pathfinder";
+import { WorldManager } from "@/world/WorldManager";
+
+/**
+ * 把行为目标（如 home、safe_zone）解析为世界坐标；无法解析时返回 null
+ */
+export type TargetResolver = (npc: BaseEntity) => Vector2 | null;
+
+type NPCAction = NPCBehaviorDecision["action"];
+
+const WALK_SPEED = 1.5;
+const FLEE_SPEED = 3;
+const CHASE_SPEED = 2.2;
+const ARRIVE_DISTANCE = 12;
+/** 行走阶段超过该时间仍未到达视为失败（毫秒） */
+const MAX_TRAVEL_TIME = 30000;
+/** 逃跑时躲避的敌对生物范围 */
+const THREAT_RADIUS = 300;
+/** 玩家离开该距离后互动失败 */
+const INTERACT_RANGE = 200;
+/** 目标跑出该距离后放弃追击 */
+const PURSUIT_RANGE = 400;
+/** 双方碰撞体互相阻挡，攻击距离按两者的半宽放宽 */
+const BODY_CLEARANCE = 20;
+const PATROL_RADIUS = 150;
+/** 觅食时搜索森林与平原区块的范围（区块数） */
+const FORAGE_SEARCH_CHUNKS = 6;
+const FORAGE_BIOMES = new Set(["forest", "plains"]);
+
+/** 新决策因优先级不够被拒绝时 npc:action 的失败原因 */
+export const REJECTED_BY_PRIORITY = "正在执行优先级更高的行为";
+
+/** 需要先走到目标再开始活动的行为，值为到达后的活动；MOVE 到达即完成 */
+const TRAVEL_ACTIONS: Partial<Record<NPCAction, NPCActivity | null>> = {
+  MOVE: null,
+  WORK: "working",
+  SLEEP: "sleeping",
+  EAT: "eating",
+  IDLE: "idle",
+};
+
+/**
+ * 执行 AIManager 给出的行为决策：解析目标、寻路行走、到达后进行工作或睡眠等活动，
+ * 逃跑时远离附近的敌对生物，互动时面向玩家，攻击时追上目标挥出近战攻击。
+ * 新决策的优先级不低于当前行为时才会打断它，结果通过 npc:action 事件回报
+ */
+export class NPCActionSystem implements GameSystem {
+  public readonly name = "npc-actions";
+  public readonly priority = 55;
+  public readonly dependsOn = ["world", "entities"];
+
+  private readonly resolvers = new Map<string, TargetResolver>();
+  private random: RandomSource;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly world: WorldManager,
+    private readonly pathfinder: Pathfinder,
+    private readonly eventBus: EventBus,
+    random: RandomStreams,
+  ) {
+    this.random = random.stream("npc-action");
+    this.resolvers.set("home", (npc) => this.homeOf(npc));
+    this.resolvers.set("player", () => (this.entities.hasPlayer() ? { ...this.entities.getPlayer().getBody().position } : null));
+    this.resolvers.set("safe_zone", (npc) => this.homeOf(npc));
+    this.resolvers.set("nearest_food", (npc) => this.findForagingSpot(npc));
+    this.resolvers.set("patrol_route", (npc) => this.pickPatrolPoint(npc));
+  }
+
+  initialize(): void {
+    this.eventBus.on("npc:behavior", ({ npc, decision }) => {
+      this.assign(npc, decision);
+    });
+  }
+
+  update(delta: number): void {
+    for (const npc of this.entities.query("npcAction", "physicsBody")) {
+      const action = npc.requireComponent("npcAction");
+      // 硬直期间交给物理处理击退
+      if (npc.getComponent("health")?.staggerTime) continue;
+
+      if (!action.decision) {
+        this.stop(npc);
+        continue;
+      }
+      this.step(npc, action, action.decision, delta);
+    }
+  }
+
+  /**
+   * 开始新世界时切换到新种子的随机数流
+   */
+  reset(random: RandomStreams): void {
+    this.random = random.stream("npc-action");
+  }
+
+  /**
+   * 注册或覆盖行为目标的解析方式
+   */
+  registerTarget(name: string, resolver: TargetResolver): void {
+    this.resolvers.set(name, resolver);
+  }
+
+  /**
+   * 让 NPC 执行决策。当前行为优先级更高时拒绝并返回 false
+   */
+  assign(npc: BaseEntity, decision: NPCBehaviorDecision): boolean {
+    const action = npc.getComponent("npcAction");
+    if (!action) return false;
+
+    const current = action.decision;
+    if (current && current.priority > decision.priority) {
+      this.eventBus.emit("npc:action", { npc, decision, status: "failed", reason: REJECTED_BY_PRIORITY });
+      return false;
+    }
+    if (current) {
+      this.eventBus.emit("npc:action", { npc, decision: current, status: "preempted" });
+    }
+
+    action.decision = decision;
+    action.path = [];
+    action.travelTime = 0;
+    action.activityTime = 0;
+    action.activity = "idle";
+
+    const target = decision.action in TRAVEL_ACTIONS ? this.resolveTarget(npc, decision.target) : null;
+    // 空闲不一定有去处：目标无法解析时原地待着
+    if (decision.action in TRAVEL_ACTIONS && (target || decision.action !== "IDLE")) {
+      const path = target ? this.pathfinder.findPath(npc.getBody().position, target) : null;
+      if (!path) {
+        this.finish(npc, action, "failed", target ? "无法到达目标" : `未知目标: ${decision.target}`);
+        return false;
+      }
+      action.path = path;
+      action.activity = "walking";
+    }
+
+    this.eventBus.emit("npc:action", { npc, decision, status: "started" });
+    return true;
+  }
+
+  /**
+   * 中止 NPC 当前的行为（例如对话结束），不算失败
+   */
+  cancel(npc: BaseEntity): void {
+    const action = npc.getComponent("npcAction");
+    if (action?.decision) {
+      this.finish(npc, action, "preempted");
+    }
+  }
+
+  /**
+   * 先查注册的解析方式，再查世界数据中的命名地点
+   */
+  resolveTarget(npc: BaseEntity, target: string): Vector2 | null {
+    const resolver = this.resolvers.get(target);
+    return resolver ? resolver(npc) : this.world.getLocation(target);
+  }
+
+  private step(npc: BaseEntity, action: NPCActionComponent, decision: NPCBehaviorDecision, delta: number): void {
+    const duration = decision.duration * 1000;
+
+    // 行走阶段：沿路径移动，到达后进入活动阶段
+    if (action.activity === "walking") {
+      action.travelTime += delta;
+      if (action.travelTime > MAX_TRAVEL_TIME) {
+        this.finish(npc, action, "failed", "行走超时");
+        return;
+      }
+      if (!this.followPath(npc, action, WALK_SPEED)) return;
+
+      const activity = TRAVEL_ACTIONS[decision.action];
+      if (!activity) {
+        this.finish(npc, action, "completed");
+        return;
+      }
+      action.activity = activity;
+    }
+
+    action.activityTime += delta;
+    switch (decision.action) {
+      case "FLEE":
+        this.flee(npc, action);
+        break;
+
+      case "INTERACT": {
+        this.stop(npc);
+        action.activity = "talking";
+        const player = this.resolveTarget(npc, "player");
+        const { position } = npc.getBody();
+        if (!player || Math.hypot(player.x - position.x, player.y - position.y) > INTERACT_RANGE) {
+          this.finish(npc, action, "failed", "玩家已离开");
+          return;
+        }
+        this.face(action, { x: player.x - position.x, y: player.y - position.y });
+        break;
+      }
+
+      case "ATTACK":
+        this.fight(npc, action);
+        if (!action.decision) return;
+        break;
+
+      default:
+        this.stop(npc);
+        break;
+    }
+
+    if (action.activityTime >= duration) {
+      this.finish(npc, action, "completed");
+    }
+  }
+
+  /**
+   * 远离最近的敌对生物；附近没有威胁时走向安全区域
+   */
+  private flee(npc: BaseEntity, action: NPCActionComponent): void {
+    action.activity = "fleeing";
+    const { position } = npc.getBody();
+    const threat = this.entities.nearest(position, null, (entity) => entity.hasComponents("monsterAI"), THREAT_RADIUS);
+    if (threat) {
+      const { x, y } = threat.getBody().position;
+      this.moveInDirection(npc, action, { x: position.x - x, y: position.y - y }, FLEE_SPEED);
+      return;
+    }
+
+    const safeZone = this.resolveTarget(npc, action.decision?.target ?? "safe_zone");
+    if (!safeZone || Math.hypot(safeZone.x - position.x, safeZone.y - position.y) <= ARRIVE_DISTANCE) {
+      this.stop(npc);
+      return;
+    }
+    this.moveInDirection(npc, action, { x: safeZone.x - position.x, y: safeZone.y - position.y }, FLEE_SPEED);
+  }
+
+  /**
+   * 追向目标并在够得着时发起近战攻击，由 CombatSystem 结算；没有战斗组件或目标跑远时失败
+   */
+  private fight(npc: BaseEntity, action: NPCActionComponent): void {
+    const combat = npc.getComponent("combat");
+    if (!combat) {
+      this.finish(npc, action, "failed", "不会战斗");
+      return;
+    }
+
+    const targetName = action.decision?.target ?? "player";
+    const target = this.resolveTarget(npc, targetName);
+    const { position } = npc.getBody();
+    const direction = target ? { x: target.x - position.x, y: target.y - position.y } : null;
+    const distance = direction ? Math.hypot(direction.x, direction.y) : Infinity;
+    if (!direction || distance > PURSUIT_RANGE) {
+      this.finish(npc, action, "failed", target ? "目标已离开" : `未知目标: ${targetName}`);
+      return;
+    }
+
+    action.activity = "fighting";
+    if (distance > combat.range + BODY_CLEARANCE) {
+      this.moveInDirection(npc, action, direction, CHASE_SPEED);
+      return;
+    }
+    this.stop(npc);
+    this.face(action, direction);
+    combat.pendingAttack = direction;
+  }
+
+  /**
+   * 沿路径点移动；走完全部路径点时停下并返回 true
+   */
+  private followPath(npc: BaseEntity, action: NPCActionComponent, speed: number): boolean {
+    const { position } = npc.getBody();
+    while (action.path.length > 0) {
+      const waypoint = action.path[0];
+      const dx = waypoint.x - position.x;
+      const dy = waypoint.y - position.y;
+      if (Math.hypot(dx, dy) > ARRIVE_DISTANCE) {
+        this.moveInDirection(npc, action, { x: dx, y: dy }, speed);
+        return false;
+      }
+      action.path.shift();
+    }
+    this.stop(npc);
+    return true;
+  }
+
+  private moveInDirection(npc: BaseEntity, action: NPCActionComponent, direction: Vector2, speed: number): void {
+    const length = Math.hypot(direction.x, direction.y) || 1;
+    const velocity = { x: (direction.x / length) * speed, y: (direction.y / length) * speed };
+    const body = npc.getBody();
+    // 站立一段时间后刚体会进入休眠，设置速度前先唤醒
+    if (body.isSleeping) Sleeping.set(body, false);
+    Body.setVelocity(body, velocity);
+    this.face(action, velocity);
+  }
+
+  private face(action: NPCActionComponent, direction: Vector2): void {
+    const length = Math.hypot(direction.x, direction.y);
+    if (length > 0) {
+      action.facing = { x: direction.x / length, y: direction.y / length };
+    }
+  }
+
+  private stop(npc: BaseEntity): void {
+    Body.setVelocity(npc.getBody(), { x: 0, y: 0 });
+  }
+
+  private finish(npc: BaseEntity, action: NPCActionComponent, status: "completed" | "failed" | "preempted", reason?: string): void {
+    const decision = action.decision;
+    action.decision = null;
+    action.activity = "idle";
+    action.path = [];
+    this.stop(npc);
+    if (decision) {
+      this.eventBus.emit("npc:action", { npc, decision, status, reason });
+    }
+  }
+
+  private homeOf(npc: BaseEntity): Vector2 | null {
+    const home = npc.getComponent("persona")?.archetype.home;
+    return home ? { ...home } : null;
+  }
+
+  /**
+   * 离 NPC 最近的森林或平原区块中心，找不到时回家
+   */
+  private findForagingSpot(npc: BaseEntity): Vector2 | null {
+    const { position } = npc.getBody();
+    const chunkSize = this.world.getChunkSize();
+    const originX = Math.floor(position.x / chunkSize);
+    const originY = Math.floor(position.y / chunkSize);
+
+    let best: Vector2 | null = null;
+    let bestDistance = Infinity;
+    for (let dx = -FORAGE_SEARCH_CHUNKS; dx <= FORAGE_SEARCH_CHUNKS; dx += 1) {
+      for (let dy = -FORAGE_SEARCH_CHUNKS; dy <= FORAGE_SEARCH_CHUNKS; dy += 1) {
+        const chunk = this.world.findChunk(originX + dx, originY + dy);
+        if (!chunk || !FORAGE_BIOMES.has(chunk.biome)) continue;
+        const center = { x: (chunk.gridX + 0.5) * chunkSize, y: (chunk.gridY + 0.5) * chunkSize };
+        const distance = Math.hypot(center.x - position.x, center.y - position.y);
+        if (distance < bestDistance && this.pathfinder.isWalkableAt(center)) {
+          best = center;
+          bestDistance = distance;
+        }
+      }
+    }
+    return best ?? this.homeOf(npc);
+  }
+
+  private pickPatrolPoint(npc: BaseEntity): Vector2 {
+    const center = this.homeOf(npc) ?? npc.getBody().position;
+    const angle = this.random() * TAU;
+    const radius = Math.sqrt(this.random()) * PATROL_RADIUS;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  }
+}
@@ -0,0 +1,204 @@
+import banditCast from "@/data/npcs/bandits.json";
+import villageCast from "@/data/npcs/village.json";
+import { NPCBehaviorDecision, Vector2 } from "@/types";
+
+export interface NPCNeeds {
+  hunger: number;
+  fatigue: number;
+  health: number;
+}
+
+/**
+ * 日程中的一段时间。from / to 为一天中的小时（0-24），to 小于 from 时跨越午夜
+ */
+export interface ScheduleBlock {
+  from: number;
+  to: number;
+  action: NPCBehaviorDecision["action"];
+  /** 地点名称，如 home、village_square */
+  location: string;
+}
+
+export interface NPCAppearance {
+  /** 十六进制颜色，如 #f1c40f */
+  color: string;
+  width: number;
+  height: number;
+  /** 动画集ID，省略时为 villager */
+  sprite?: string;
+}
+
+/**
+ * 近战能力。NPC 只在对玩家怀有敌意时动手，省略时使用村民的默认值
+ */
+export interface NPCCombat {
+  damage: number;
+  /** 两次攻击的间隔（毫秒） */
+  cooldown: number;
+}
+
+/**
+ * 一个 NPC 的完整设定，由 JSON 数据文件描述。
+ * name 与 home 用于生成，其余字段进入对话上下文与 AI 状态
+ */
+export interface NPCArchetype {
+  id: string;
+  name: string;
+  profession: string;
+  personality: string;
+  backstory: string;
+  /** 初始的饥饿、疲劳与生命（0-100） */
+  needs: NPCNeeds;
+  home: Vector2;
+  schedule: ScheduleBlock[];
+  faction: string;
+  /** 说话方式，附加到对话提示词中 */
+  dialogueStyle: string;
+  appearance: NPCAppearance;
+  combat?: NPCCombat;
+}
+
+const ACTIONS: ReadonlyArray<NPCBehaviorDecision["action"]> = ["MOVE", "INTERACT", "IDLE", "WORK", "SLEEP", "EAT", "ATTACK", "FLEE"];
+const TEXT_FIELDS = ["id", "name", "profession", "personality", "backstory", "faction", "dialogueStyle"] as const;
+
+const archetypes = new Map<string, NPCArchetype>(
+  [
+    ...parseNPCArchetypes(villageCast, "data/npcs/village.json"),
+    ...parseNPCArchetypes(banditCast, "data/npcs/bandits.json"),
+  ].map((archetype) => [archetype.id, archetype]),
+);
+
+/**
+ * 注册或覆盖 NPC 设定，插件与数据包可以借此添加新的角色；返回的函数撤销本次注册并恢复被覆盖的设定
+ */
+export function registerNPCArchetype(archetype: NPCArchetype): () => void {
+  const previous = archetypes.get(archetype.id);
+  archetypes.set(archetype.id, archetype);
+  return () => {
+    if (archetypes.get(archetype.id) !== archetype) return;
+    if (previous) {
+      archetypes.set(archetype.id, previous);
+    } else {
+      archetypes.delete(archetype.id);
+    }
+  };
+}
+
+export function getNPCArchetype(id: string): NPCArchetype | undefined {
+  return archetypes.get(id);
+}
+
+export function listNPCArchetypes(): NPCArchetype[] {
+  return [...archetypes.values()];
+}
+
+/**
+ * 按设定ID或角色名查找设定，都找不到时以该名字创建通用镇民
+ */
+export function resolveNPCArchetype(idOrName: string, home: Vector2): NPCArchetype {
+  return (
+    archetypes.get(idOrName) ??
+    listNPCArchetypes().find((archetype) => archetype.name === idOrName) ??
+    createGenericArchetype(idOrName, home)
+  );
+}
+
+/**
+ * 没有设定数据的 NPC（旧存档或只给了名字的生成）使用的通用镇民设定
+ */
+export function createGenericArchetype(name: string, home: Vector2): NPCArchetype {
+  return {
+    id: name,
+    name,
+    profession: "镇民",
+    personality: "温和，乐于助人",
+    backstory: "村庄的老居民，对附近环境非常熟悉。",
+    needs: { hunger: 40, fatigue: 35, health: 85 },
+    home: { ...home },
+    schedule: [],
+    faction: "village",
+    dialogueStyle: "口语化，简洁",
+    appearance: { color: "#f1c40f", width: 30, height: 50 },
+  };
+}
+
+/**
+ * 校验 JSON 数据中的 NPC 设定列表，列出全部问题后一次性报错
+ */
+export function parseNPCArchetypes(data: unknown, source: string): NPCArchetype[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid NPC archetypes in ${source}: expected an array`);
+  }
+
+  const errors: string[] = [];
+  data.forEach((raw, index) => {
+    const label = typeof raw?.id === "string" && raw.id ? raw.id : `#${index}`;
+    if (!raw || typeof raw !== "object") {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    for (const field of TEXT_FIELDS) {
+      if (typeof raw[field] !== "string" || raw[field] === "") {
+        errors.push(`${label}: ${field} must be a non-empty string`);
+      }
+    }
+    for (const need of ["hunger", "fatigue", "health"] as const) {
+      const value = raw.needs?.[need];
+      if (typeof value !== "number" || value < 0 || value > 100) {
+        errors.push(`${label}: needs.${need} must be a number between 0 and 100`);
+      }
+    }
+    if (!isVector(raw.home)) {
+      errors.push(`${label}: home must be an object with numeric x and y`);
+    }
+    if (!Array.isArray(raw.schedule)) {
+      errors.push(`${label}: schedule must be an array`);
+    } else {
+      raw.schedule.forEach((block: Partial<ScheduleBlock>, blockIndex: number) => {
+        if (!isHour(block?.from) || !isHour(block?.to)) {
+          errors.push(`${label}: schedule[${blockIndex}] from and to must be hours between 0 and 24`);
+        }
+        if (!ACTIONS.includes(block?.action as NPCBehaviorDecision["action"])) {
+          errors.push(`${label}: schedule[${blockIndex}].action must be one of ${ACTIONS.join(", ")}`);
+        }
+        if (typeof block?.location !== "string" || block.location === "") {
+          errors.push(`${label}: schedule[${blockIndex}].location must be a non-empty string`);
+        }
+      });
+    }
+    const { appearance } = raw;
+    if (typeof appearance?.color !== "string" || !/^#[0-9a-f]{6}$/i.test(appearance.color)) {
+      errors.push(`${label}: appearance.color must be a hex color like #f1c40f`);
+    }
+    if (!(appearance?.width > 0) || !(appearance?.height > 0)) {
+      errors.push(`${label}: appearance.width and appearance.height must be positive numbers`);
+    }
+    if (appearance?.sprite !== undefined && (typeof appearance.sprite !== "string" || appearance.sprite === "")) {
+      errors.push(`${label}: appearance.sprite must be a non-empty string`);
+    }
+    if (raw.combat !== undefined && !(raw.combat?.damage > 0 && raw.combat?.cooldown > 0)) {
+      errors.push(`${label}: combat.damage and combat.cooldown must be positive numbers`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid NPC archetypes in ${source}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return data as NPCArchetype[];
+}
+
+/**
+ * 把 #rrggbb 转换为 PIXI 使用的数值颜色
+ */
+export function parseColor(color: string): number {
+  return Number.parseInt(color.slice(1), 16);
+}
+
+function isVector(value: unknown): value is Vector2 {
+  const vector = value as Partial<Vector2> | undefined;
+  return typeof vector?.x === "number" && typeof vector.y === "number";
+}
+
+function isHour(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 24;
+}
@@ -0,0 +1,384 @@
+import worldFactions from "@/data/world/factions.json";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { EntityManager } from "@/entities/EntityManager";
+import { clamp } from "@/utils/MathUtils";
+import { NPCActionSystem } from "./NPCActionSystem";
+
+/**
+ * 一个 NPC 对玩家的关系，两项都在 0-100 之间
+ */
+export interface Relationship {
+  affection: number;
+  trust: number;
+}
+
+/**
+ * 阵营。standing 为阵营对玩家的初始声望（-100 到 100）
+ */
+export interface FactionDefinition {
+  name: string;
+  standing: number;
+}
+
+/**
+ * 解锁一种互动需要的最低好感与信任
+ */
+export interface InteractionRequirement {
+  affection: number;
+  trust: number;
+}
+
+export interface RelationshipSnapshot {
+  /** 以 NPC 设定ID为键，读档后实体ID会变化 */
+  npcs: Record<string, Relationship>;
+  factions: Record<string, number>;
+}
+
+export type DialogueTone = "polite" | "neutral" | "rude";
+
+interface RelationshipEffect {
+  affection?: number;
+  trust?: number;
+  /** NPC 所属阵营声望的变化 */
+  standing?: number;
+}
+
+/** 阵营声望不高于该值时，阵营成员见到玩家就会攻击 */
+export const HOSTILE_STANDING = -50;
+/** 未注册的阵营（如插件怪物自带的阵营）按最低声望处理，见到玩家就攻击 */
+const UNKNOWN_FACTION_STANDING = -100;
+/** 好感不高于该值的 NPC 即使阵营友好也会对玩家动手 */
+const HOSTILE_AFFECTION = 10;
+const DEFAULT_RELATIONSHIP: Relationship = { affection: 50, trust: 50 };
+/** 每过一天，低于初始值的好感、信任与阵营声望回升的量，旧怨不会永远无法化解 */
+const DAILY_RECOVERY: Required<RelationshipEffect> = { affection: 5, trust: 5, standing: 5 };
+/** 敌对 NPC 发现玩家的距离 */
+const SIGHT_RADIUS = 220;
+/** 检查敌对 NPC 的间隔（毫秒） */
+const CHECK_INTERVAL = 500;
+/** 低于重伤逃跑，高于日程与互动 */
+const ATTACK_PRIORITY = 9;
+const ATTACK_DURATION = 20;
+
+const EFFECTS: Record<string, RelationshipEffect> = {
+  attacked: { affection: -15, trust: -20, standing: -10 },
+  killed: { standing: -30 },
+  gift: { affection: 8, trust: 3, standing: 1 },
+  questCompleted: { affection: 10, trust: 15, standing: 10 },
+  questFailed: { affection: -5, trust: -10, standing: -3 },
+  polite: { affection: 2, trust: 1 },
+  rude: { affection: -6, trust: -2 },
+};
+
+const POLITE_WORDS = ["谢谢", "多谢", "请", "您", "辛苦", "劳驾"];
+const RUDE_WORDS = ["滚", "闭嘴", "笨蛋", "蠢", "废物", "白痴", "老东西"];
+
+const factions = new Map<string, FactionDefinition>(
+  Object.entries(parseFactions(worldFactions, "data/world/factions.json")),
+);
+
+const interactions = new Map<string, InteractionRequirement>([
+  ["talk", { affection: 20, trust: 0 }],
+  ["gift", { affection: 0, trust: 20 }],
+]);
+
+/**
+ * 注册或覆盖阵营，插件可以借此添加新的势力；返回的函数撤销本次注册并恢复被覆盖的阵营
+ */
+export function registerFaction(id: string, faction: FactionDefinition): () => void {
+  const previous = factions.get(id);
+  factions.set(id, faction);
+  return () => {
+    if (factions.get(id) !== faction) return;
+    if (previous) {
+      factions.set(id, previous);
+    } else {
+      factions.delete(id);
+    }
+  };
+}
+
+export function getFaction(id: string): FactionDefinition | undefined {
+  return factions.get(id);
+}
+
+export function listFactions(): string[] {
+  return [...factions.keys()];
+}
+
+/**
+ * 注册或覆盖一种互动的解锁条件，如交易、传授技能
+ */
+export function registerInteraction(name: string, requirement: InteractionRequirement): void {
+  interactions.set(name, requirement);
+}
+
+/**
+ * 校验 JSON 数据中的阵营（ID 到阵营），列出全部问题后一次性报错
+ */
+export function parseFactions(data: unknown, source: string): Record<string, FactionDefinition> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Invalid factions in ${source}: expected an object of id to faction`);
+  }
+
+  const errors: string[] = [];
+  for (const [id, raw] of Object.entries(data)) {
+    if (typeof raw?.name !== "string" || raw.name === "") {
+      errors.push(`${id}: name must be a non-empty string`);
+    }
+    if (typeof raw?.standing !== "number" || raw.standing < -100 || raw.standing > 100) {
+      errors.push(`${id}: standing must be a number between -100 and 100`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid factions in ${source}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return data as Record<string, FactionDefinition>;
+}
+
+/**
+ * 按关键词粗略判断玩家说话的语气；粗鲁的词优先
+ */
+export function classifyTone(message: string): DialogueTone {
+  if (RUDE_WORDS.some((word) => message.includes(word))) return "rude";
+  if (POLITE_WORDS.some((word) => message.includes(word))) return "polite";
+  return "neutral";
+}
+
+/**
+ * NPC 对玩家的好感与信任，以及各阵营对玩家的声望。
+ * 攻击、击杀、送礼、任务与对话语气会改变它们，低于初始值的部分每天慢慢回升；
+ * 关系决定哪些互动可用，敌对阵营或好感降到谷底的 NPC 发现玩家后会主动攻击
+ */
+export class RelationshipSystem implements GameSystem {
+  public readonly name = "relationships";
+  public readonly priority = 57;
+  public readonly dependsOn = ["entities"];
+
+  private readonly npcs = new Map<string, Relationship>();
+  /** 声望变化过的阵营，其余使用阵营的初始声望 */
+  private readonly standings = new Map<string, number>();
+  private checkTimer = 0;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly actions: NPCActionSystem,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  initialize(): void {
+    this.eventBus.on("combat:damage", ({ target, source }) => {
+      if (source?.type === "player" && target !== source) {
+        this.apply(target, EFFECTS.attacked, `${target.getDisplayName()} 遭到玩家攻击`);
+      }
+    });
+
+    this.eventBus.on("combat:death", ({ entity, killer }) => {
+      if (killer?.type === "player") {
+        this.apply(entity, EFFECTS.killed, `玩家杀死了 ${entity.getDisplayName()}`);
+      }
+    });
+
+    this.eventBus.on("world:new-day", () => this.recover());
+
+    this.eventBus.on("quest:completed", ({ questId, npc, faction }) => {
+      this.applyQuest(npc, faction, EFFECTS.questCompleted, `完成任务 ${questId}`);
+    });
+
+    this.eventBus.on("quest:failed", ({ questId, npc, faction }) => {
+      this.applyQuest(npc, faction, EFFECTS.questFailed, `任务 ${questId} 失败`);
+    });
+  }
+
+  update(delta: number): void {
+    this.checkTimer -= delta;
+    if (this.checkTimer > 0) return;
+    this.checkTimer = CHECK_INTERVAL;
+
+    const player = this.entities.hasPlayer() ? this.entities.getPlayer() : null;
+    if (!player || (player.getComponent("health")?.current ?? 1) <= 0) return;
+    const target = player.getBody().position;
+
+    for (const npc of this.entities.query("persona", "npcAction")) {
+      const { decision } = npc.requireComponent("npcAction");
+      const attacking = decision?.action === "ATTACK";
+      // 关系修复后（如完成任务）不再追打玩家
+      if (!this.isHostile(npc)) {
+        if (attacking) this.actions.cancel(npc);
+        continue;
+      }
+      if (attacking || (decision && decision.priority > ATTACK_PRIORITY)) continue;
+
+      const { x, y } = npc.getBody().position;
+      if (Math.hypot(target.x - x, target.y - y) > SIGHT_RADIUS) continue;
+      this.actions.assign(npc, {
+        action: "ATTACK",
+        target: "player",
+        priority: ATTACK_PRIORITY,
+        duration: ATTACK_DURATION,
+        reasoning: this.isFactionHostile(npc.getComponent("faction")?.id) ? "敌对阵营，见到玩家就动手" : "对玩家怀恨在心",
+      });
+    }
+  }
+
+  /**
+   * 开始新世界时丢弃旧世界的关系
+   */
+  reset(): void {
+    this.npcs.clear();
+    this.standings.clear();
+    this.checkTimer = 0;
+  }
+
+  getRelationship(npc: BaseEntity): Relationship {
+    return { ...(this.npcs.get(keyOf(npc)) ?? DEFAULT_RELATIONSHIP) };
+  }
+
+  getStanding(faction: string): number {
+    return this.standings.get(faction) ?? factions.get(faction)?.standing ?? UNKNOWN_FACTION_STANDING;
+  }
+
+  isFactionHostile(faction: string | undefined): boolean {
+    return faction !== undefined && faction !== "player" && this.getStanding(faction) <= HOSTILE_STANDING;
+  }
+
+  /**
+   * 阵营敌对或本人好感降到谷底时，NPC 会攻击玩家
+   */
+  isHostile(npc: BaseEntity): boolean {
+    return this.isFactionHostile(npc.getComponent("faction")?.id) || this.getRelationship(npc).affection <= HOSTILE_AFFECTION;
+  }
+
+  /**
+   * 关系是否满足互动的条件；敌对时任何互动都不可用，未注册的互动只检查敌对
+   */
+  canInteract(npc: BaseEntity, interaction: string): boolean {
+    if (this.isHostile(npc)) return false;
+    const requirement = interactions.get(interaction);
+    const { affection, trust } = this.getRelationship(npc);
+    return !requirement || (affection >= requirement.affection && trust >= requirement.trust);
+  }
+
+  /**
+   * 同 canInteract，被拒绝时发出 relationship:refused
+   */
+  tryInteract(npc: BaseEntity, interaction: string): boolean {
+    if (this.canInteract(npc, interaction)) return true;
+    this.eventBus.emit("relationship:refused", { npc, interaction });
+    return false;
+  }
+
+  /**
+   * 把玩家背包中的一件物品送给 NPC；关系不够或没有该物品时返回 false
+   */
+  giveGift(npc: BaseEntity, itemId: string): boolean {
+    const inventory = this.entities.getPlayer().getComponent("inventory")?.inventory;
+    if (!inventory?.listItems().some((item) => item.id === itemId)) return false;
+    if (!this.tryInteract(npc, "gift")) return false;
+
+    inventory.removeItem(itemId, 1);
+    this.apply(npc, EFFECTS.gift, `玩家送给 ${npc.getDisplayName()} ${itemId}`);
+    return true;
+  }
+
+  /**
+   * 按玩家说话的语气调整关系，返回判断出的语气
+   */
+  recordDialogue(npc: BaseEntity, playerMessage: string): DialogueTone {
+    const tone = classifyTone(playerMessage);
+    if (tone !== "neutral") {
+      this.apply(npc, EFFECTS[tone], tone === "polite" ? "玩家说话客气" : "玩家出言不逊");
+    }
+    return tone;
+  }
+
+  /**
+   * 调整 NPC 对玩家的关系，结果限制在 0-100 并发出 relationship:changed
+   */
+  adjust(npc: BaseEntity, change: Partial<Relationship>, reason: string): Relationship {
+    const current = this.getRelationship(npc);
+    const next = {
+      affection: clamp(current.affection + (change.affection ?? 0), 0, 100),
+      trust: clamp(current.trust + (change.trust ?? 0), 0, 100),
+    };
+    if (next.affection === current.affection && next.trust === current.trust) return current;
+
+    this.npcs.set(keyOf(npc), next);
+    this.eventBus.emit("relationship:changed", { npc, relationship: { ...next }, reason });
+    return { ...next };
+  }
+
+  /**
+   * 调整阵营声望，结果限制在 -100 到 100 并发出 faction:changed
+   */
+  adjustStanding(faction: string, delta: number, reason: string): number {
+    const previous = this.getStanding(faction);
+    const standing = clamp(previous + delta, -100, 100);
+    if (standing === previous) return previous;
+
+    this.standings.set(faction, standing);
+    this.eventBus.emit("faction:changed", { faction, standing, previous, hostile: standing <= HOSTILE_STANDING, reason });
+    return standing;
+  }
+
+  serialize(): RelationshipSnapshot {
+    return {
+      npcs: Object.fromEntries([...this.npcs].map(([key, relationship]) => [key, { ...relationship }])),
+      factions: Object.fromEntries(this.standings),
+    };
+  }
+
+  restore(snapshot: RelationshipSnapshot): void {
+    this.reset();
+    Object.entries(snapshot.npcs).forEach(([key, relationship]) => this.npcs.set(key, { ...relationship }));
+    Object.entries(snapshot.factions).forEach(([faction, standing]) => this.standings.set(faction, standing));
+  }
+
+  private apply(entity: BaseEntity, effect: RelationshipEffect, reason: string): void {
+    if (entity.hasComponents("persona")) {
+      this.adjust(entity, effect, reason);
+    }
+    const faction = entity.getComponent("faction")?.id;
+    if (effect.standing && faction && faction !== "player") {
+      this.adjustStanding(faction, effect.standing, reason);
+    }
+  }
+
+  /**
+   * 新的一天：低于初始值的关系与声望向初始值回升，不会超过初始值
+   */
+  private recover(): void {
+    for (const npc of this.entities.query("persona")) {
+      const { affection, trust } = this.getRelationship(npc);
+      this.adjust(npc, {
+        affection: clamp(DEFAULT_RELATIONSHIP.affection - affection, 0, DAILY_RECOVERY.affection),
+        trust: clamp(DEFAULT_RELATIONSHIP.trust - trust, 0, DAILY_RECOVERY.trust),
+      }, "时间冲淡了旧怨");
+    }
+
+    for (const [faction, standing] of [...this.standings]) {
+      const initial = factions.get(faction)?.standing ?? UNKNOWN_FACTION_STANDING;
+      this.adjustStanding(faction, clamp(initial - standing, 0, DAILY_RECOVERY.standing), "时间冲淡了旧怨");
+    }
+  }
+
+  private applyQuest(npc: BaseEntity | null, faction: string | undefined, effect: RelationshipEffect, reason: string): void {
+    if (npc) {
+      this.adjust(npc, effect, reason);
+    }
+    const target = faction ?? npc?.getComponent("faction")?.id;
+    if (effect.standing && target && target !== "player") {
+      this.adjustStanding(target, effect.standing, reason);
+    }
+  }
+}
+
+/**
+ * 关系以 NPC 设定ID保存，没有设定的实体退回实体ID
+ */
+function keyOf(npc: BaseEntity): string {
+  return npc.getComponent("persona")?.archetype.id ?? npc.id;
+}
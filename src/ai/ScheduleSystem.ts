@@ -0,0 +1,137 @@
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { EntityManager } from "@/entities/EntityManager";
+import { NPCBehaviorDecision } from "@/types";
+import { WorldManager } from "@/world/WorldManager";
+import { NPCActionSystem } from "./NPCActionSystem";
+import { ScheduleBlock } from "./NPCArchetypes";
+
+/**
+ * 日程行为的优先级。行为树或大模型给出更高优先级的决策（紧急需求、与玩家互动）时才会打断日程
+ */
+export const SCHEDULE_PRIORITY = 5;
+
+/** 检查日程的间隔（毫秒） */
+const CHECK_INTERVAL = 1000;
+
+const ACTION_LABELS: Record<NPCBehaviorDecision["action"], string> = {
+  MOVE: "前往",
+  WORK: "工作",
+  SLEEP: "睡觉",
+  EAT: "吃饭",
+  IDLE: "休息",
+  FLEE: "躲避",
+  INTERACT: "交谈",
+  ATTACK: "战斗",
+};
+
+interface ScheduleTracking {
+  block: ScheduleBlock;
+  decision: NPCBehaviorDecision;
+  /** 该时段的行为已完成或失败，时段切换前不再重新安排 */
+  done: boolean;
+}
+
+/**
+ * 当前时刻所在的日程时段；from 大于 to 的时段跨越午夜（如 22–6）
+ */
+export function findScheduleBlock(schedule: ScheduleBlock[], hour: number): ScheduleBlock | null {
+  return schedule.find((block) => hoursUntilEnd(block, hour) !== null) ?? null;
+}
+
+/**
+ * 从 hour 到时段结束还剩的游戏小时；hour 不在时段内时返回 null
+ */
+function hoursUntilEnd({ from, to }: ScheduleBlock, hour: number): number | null {
+  const length = (to - from + 24) % 24 || 24;
+  const elapsed = (hour - from + 24) % 24;
+  return elapsed < length ? length - elapsed : null;
+}
+
+/**
+ * 按世界时钟让 NPC 执行设定中的日程。只在 NPC 空闲或正在执行日程时安排新时段的行为，
+ * 被更高优先级的行为打断后，等打断结束再回到当前时段的日程
+ */
+export class ScheduleSystem implements GameSystem {
+  public readonly name = "schedule";
+  public readonly priority = 52;
+  public readonly dependsOn = ["world", "entities"];
+
+  private readonly tracking = new Map<string, ScheduleTracking>();
+  private checkTimer = 0;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly world: WorldManager,
+    private readonly actions: NPCActionSystem,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  initialize(): void {
+    this.eventBus.on("npc:action", ({ npc, decision, status }) => {
+      const tracked = this.tracking.get(npc.id);
+      if (tracked?.decision !== decision) return;
+      if (status === "completed" || status === "failed") {
+        tracked.done = true;
+      }
+    });
+
+    this.eventBus.on("entity:removed", ({ entityId }) => {
+      this.tracking.delete(entityId);
+    });
+
+    // 新的一天与读档后重新安排全部日程
+    this.eventBus.on("world:new-day", () => this.tracking.clear());
+    this.eventBus.on("save:loaded", () => this.tracking.clear());
+  }
+
+  update(delta: number): void {
+    this.checkTimer -= delta;
+    if (this.checkTimer > 0) return;
+    this.checkTimer = CHECK_INTERVAL;
+
+    const hour = this.world.getState().timeOfDay;
+    for (const npc of this.entities.query("persona", "npcAction")) {
+      this.follow(npc, hour);
+    }
+  }
+
+  /**
+   * 开始新世界时丢弃旧世界的日程进度
+   */
+  reset(): void {
+    this.tracking.clear();
+    this.checkTimer = 0;
+  }
+
+  /**
+   * NPC 此刻应处于的日程时段，没有日程时返回 null
+   */
+  getCurrentBlock(npc: BaseEntity): ScheduleBlock | null {
+    const schedule = npc.getComponent("persona")?.archetype.schedule ?? [];
+    return findScheduleBlock(schedule, this.world.getState().timeOfDay);
+  }
+
+  private follow(npc: BaseEntity, hour: number): void {
+    const { schedule } = npc.requireComponent("persona").archetype;
+    const block = findScheduleBlock(schedule, hour);
+    if (!block) return;
+
+    const current = npc.requireComponent("npcAction").decision;
+    const tracked = this.tracking.get(npc.id);
+    // 正在执行日程以外的行为（逃跑、交谈等）时不打扰
+    if (current && current !== tracked?.decision) return;
+    if (tracked?.block === block && (tracked.done || current === tracked.decision)) return;
+
+    const decision: NPCBehaviorDecision = {
+      action: block.action,
+      target: block.location,
+      priority: SCHEDULE_PRIORITY,
+      duration: this.world.fromGameHours(hoursUntilEnd(block, hour) ?? 0) / 1000,
+      reasoning: `日程：${block.from}–${block.to} 点${ACTION_LABELS[block.action]}（${block.location}）`,
+    };
+    this.tracking.set(npc.id, { block, decision, done: false });
+    this.actions.assign(npc, decision);
+  }
+}
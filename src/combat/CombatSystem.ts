@@ -0,0 +1,187 @@
+import { Body } from "matter-js";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { CombatComponent, LootEntry } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { Vector2 } from "@/types";
+import { InventoryItem } from "@/ui/Inventory";
+import { RandomSource, RandomStreams } from "@/utils/RandomStreams";
+
+/** 受击后的无敌时间（毫秒） */
+const INVULNERABILITY_TIME = 500;
+/** 受击硬直时间（毫秒） */
+const STAGGER_TIME = 200;
+
+export interface DamageOptions {
+  source?: BaseEntity | null;
+  /** 击退方向，无需归一化 */
+  direction?: Vector2;
+  knockback?: number;
+}
+
+/**
+ * 近战结算：处理实体的攻击请求、伤害与击退、无敌帧，
+ * 以及死亡后的移除与掉落
+ */
+export class CombatSystem implements GameSystem {
+  public readonly name = "combat";
+  public readonly priority = 65;
+  // 在实体更新（写入攻击请求）之后结算
+  public readonly dependsOn = ["entities"];
+
+  private random: RandomSource;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly eventBus: EventBus,
+    random: RandomStreams,
+  ) {
+    this.random = random.stream("loot");
+  }
+
+  initialize(): void {}
+
+  update(delta: number): void {
+    for (const entity of this.entities.query("health")) {
+      const health = entity.requireComponent("health");
+      health.invulnerableTime = Math.max(0, (health.invulnerableTime ?? 0) - delta);
+      health.staggerTime = Math.max(0, (health.staggerTime ?? 0) - delta);
+      // 无敌期间闪烁
+      entity.getSprite().alpha = health.invulnerableTime > 0 && Math.floor(health.invulnerableTime / 80) % 2 === 0 ? 0.4 : 1;
+    }
+
+    for (const entity of this.entities.query("combat")) {
+      const combat = entity.requireComponent("combat");
+      combat.cooldownRemaining = Math.max(0, combat.cooldownRemaining - delta);
+      const direction = combat.pendingAttack;
+      combat.pendingAttack = null;
+      if (direction && combat.cooldownRemaining === 0 && this.spendStamina(entity, combat.staminaCost ?? 0)) {
+        this.attack(entity, combat, direction);
+      }
+    }
+  }
+
+  /**
+   * 开始新世界时切换到新种子的随机数流
+   */
+  reset(random: RandomStreams): void {
+    this.random = random.stream("loot");
+  }
+
+  /**
+   * 对攻击扇形内的所有可受伤实体造成伤害，返回命中的实体
+   */
+  attack(attacker: BaseEntity, combat: CombatComponent, direction: Vector2): BaseEntity[] {
+    combat.cooldownRemaining = combat.cooldown;
+
+    const length = Math.hypot(direction.x, direction.y);
+    if (length === 0) return [];
+    const facing = { x: direction.x / length, y: direction.y / length };
+    const origin = attacker.getBody().position;
+    const minDot = Math.cos(combat.arc / 2);
+    const attackerFaction = attacker.getComponent("faction")?.id;
+
+    const hits = this.entities.query("health", "physicsBody").filter((target) => {
+      if (target === attacker) return false;
+      if (attackerFaction && target.getComponent("faction")?.id === attackerFaction) return false;
+
+      const body = target.getBody();
+      const dx = body.position.x - origin.x;
+      const dy = body.position.y - origin.y;
+      const distance = Math.hypot(dx, dy);
+      // 按目标包围盒的半径放宽距离，贴身的目标总是算在扇形内
+      const radius = Math.max(body.bounds.max.x - body.bounds.min.x, body.bounds.max.y - body.bounds.min.y) / 2;
+      if (distance - radius > combat.range) return false;
+      if (distance <= radius) return true;
+      return (dx * facing.x + dy * facing.y) / distance >= minDot;
+    });
+
+    this.eventBus.emit("combat:attack", { attacker, direction: facing, hits });
+
+    for (const target of hits) {
+      const { position } = target.getBody();
+      this.applyDamage(target, combat.damage + (combat.bonusDamage ?? 0), {
+        source: attacker,
+        direction: { x: position.x - origin.x, y: position.y - origin.y },
+        knockback: combat.knockback,
+      });
+    }
+    return hits;
+  }
+
+  /**
+   * 扣除生命并施加击退；目标处于无敌时间或已死亡时返回 false
+   */
+  applyDamage(target: BaseEntity, amount: number, options: DamageOptions = {}): boolean {
+    const health = target.getComponent("health");
+    if (!health || health.current <= 0 || (health.invulnerableTime ?? 0) > 0) return false;
+
+    const source = options.source ?? null;
+    health.current = Math.max(0, health.current - amount);
+    health.invulnerableTime = INVULNERABILITY_TIME;
+
+    const { direction, knockback = 0 } = options;
+    const length = direction ? Math.hypot(direction.x, direction.y) : 0;
+    const body = target.getBody();
+    if (direction && length > 0 && knockback > 0 && !body.isStatic) {
+      // 冲量除以质量得到速度变化
+      const speed = knockback / body.mass;
+      Body.setVelocity(body, {
+        x: body.velocity.x + (direction.x / length) * speed,
+        y: body.velocity.y + (direction.y / length) * speed,
+      });
+      health.staggerTime = STAGGER_TIME;
+    }
+
+    this.eventBus.emit("combat:damage", { target, source, amount, remaining: health.current });
+
+    if (health.current <= 0) {
+      this.handleDeath(target, source);
+    }
+    return true;
+  }
+
+  /**
+   * 扣除攻击所需的体力；体力不足时放弃本次攻击
+   */
+  spendStamina(entity: BaseEntity, cost: number): boolean {
+    const vitals = entity.getComponent("vitals");
+    if (!vitals || cost <= 0) return true;
+    if (vitals.stamina < cost) return false;
+    vitals.stamina -= cost;
+    vitals.restTime = 0;
+    return true;
+  }
+
+  private handleDeath(entity: BaseEntity, killer: BaseEntity | null): void {
+    this.eventBus.emit("combat:death", { entity, killer });
+
+    const loot = entity.getComponent("loot");
+    if (loot) {
+      const items = this.rollLoot(loot.table);
+      const inventory = killer?.getComponent("inventory")?.inventory;
+      items.forEach((item) => inventory?.addItem(item));
+      if (items.length > 0) {
+        this.eventBus.emit("combat:loot", { entity, killer, items });
+      }
+    }
+
+    // 玩家的死亡由游戏状态处理，不从世界中移除
+    if (entity.type !== "player") {
+      this.entities.removeEntity(entity.id);
+    }
+  }
+
+  private rollLoot(table: LootEntry[]): InventoryItem[] {
+    const items: InventoryItem[] = [];
+    for (const entry of table) {
+      if (this.random() >= entry.chance) continue;
+      const quantity = entry.min + Math.floor(this.random() * (entry.max - entry.min + 1));
+      if (quantity > 0) {
+        items.push({ ...entry.item, quantity });
+      }
+    }
+    return items;
+  }
+}
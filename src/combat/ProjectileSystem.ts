@@ -0,0 +1,320 @@
+import Matter, { Bodies, Body, Sleeping } from "matter-js";
+import { Graphics } from "pixi.js";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { EntityManager } from "@/entities/EntityManager";
+import { PhysicsEngine } from "@/physics/PhysicsEngine";
+import { RenderingSystem } from "@/rendering/RenderingSystem";
+import { Vector2 } from "@/types";
+import { ObjectPool } from "@/utils/ObjectPool";
+import { CombatSystem } from "./CombatSystem";
+
+/**
+ * 一种弹道的参数。速度单位为像素/物理步，时间单位为毫秒
+ */
+export interface ProjectileType {
+  speed: number;
+  /** 受世界重力影响的比例，0 为直线飞行，投掷物取较小的值形成抛物线 */
+  gravity: number;
+  lifetime: number;
+  /** 可以穿透的目标数，0 表示命中第一个目标即消失 */
+  pierce: number;
+  damage: number;
+  knockback: number;
+  radius: number;
+  /** 箭矢画成沿飞行方向的线段，其余画成圆 */
+  shape: "line" | "circle";
+  color: number;
+  /** 命中时粒子的颜色 */
+  impactColor: number;
+}
+
+/** 弹道的碰撞类别：与其他刚体碰撞，但弹道之间互不碰撞 */
+const PROJECTILE_CATEGORY = 0x0002;
+/** 从发射者的碰撞体边缘外该距离处出现 */
+const SPAWN_GAP = 2;
+const IMPACT_PARTICLES = 6;
+
+const projectileTypes = new Map<string, ProjectileType>([
+  ["arrow", { speed: 12, gravity: 0, lifetime: 1200, pierce: 1, damage: 14, knockback: 4, radius: 4, shape: "line", color: 0xd4a373, impactColor: 0xffffff }],
+  ["stone", { speed: 8, gravity: 0.15, lifetime: 1500, pierce: 0, damage: 10, knockback: 8, radius: 6, shape: "circle", color: 0x95a5a6, impactColor: 0xbdc3c7 }],
+  ["spit", { speed: 6, gravity: 0, lifetime: 1500, pierce: 0, damage: 8, knockback: 2, radius: 6, shape: "circle", color: 0x8bc34a, impactColor: 0x8bc34a }],
+]);
+
+/**
+ * 注册或覆盖弹道类型，插件可以借此添加新的远程武器
+ */
+export function registerProjectileType(name: string, type: ProjectileType): void {
+  projectileTypes.set(name, type);
+}
+
+export function getProjectileType(name: string): ProjectileType | undefined {
+  return projectileTypes.get(name);
+}
+
+export function listProjectileTypes(): string[] {
+  return [...projectileTypes.keys()];
+}
+
+interface Projectile {
+  type: string;
+  body: Body;
+  view: Graphics | null;
+  owner: BaseEntity | null;
+  /** 发射者的阵营，不伤害同阵营的实体 */
+  faction: string | null;
+  damage: number;
+  /** 剩余存在时间（毫秒） */
+  remaining: number;
+  pierceLeft: number;
+  /** 已命中的实体，穿透时不重复伤害 */
+  hits: Set<string>;
+}
+
+/**
+ * 远程攻击：结算实体 ranged 组件的发射请求，弹道为对象池复用的 Matter 传感器刚体。
+ * 弹道与发射者共用负的碰撞分组，因此不会与发射者碰撞；命中实体时通过 CombatSystem 造成伤害，
+ * 撞到地形或用完穿透次数后消失，并在 ParticleSystem 中产生命中效果
+ */
+export class ProjectileSystem implements GameSystem {
+  public readonly name = "projectiles";
+  public readonly priority = 64;
+  // 在实体更新（写入发射请求）与物理碰撞之后结算
+  public readonly dependsOn = ["physics", "entities"];
+
+  private readonly pools = new Map<string, ObjectPool<Projectile>>();
+  /** 刚体ID到飞行中的弹道 */
+  private readonly active = new Map<number, Projectile>();
+  private readonly contacts: Array<{ projectile: Projectile; other: Body }> = [];
+  private unsubscribe: Array<() => void> = [];
+
+  constructor(
+    private readonly physics: PhysicsEngine,
+    private readonly entities: EntityManager,
+    private readonly combat: CombatSystem,
+    private readonly rendering: RenderingSystem | null,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  initialize(): void {
+    this.unsubscribe.push(this.eventBus.on("collision:start", ({ a, b }) => {
+      const projectile = this.active.get(a.id) ?? this.active.get(b.id);
+      if (projectile) {
+        this.contacts.push({ projectile, other: projectile.body === a ? b : a });
+      }
+    }));
+
+    // 读档后实体已重建，飞行中的弹道不再有效
+    this.unsubscribe.push(this.eventBus.on("save:loaded", () => this.clear()));
+
+    // 按各弹道的比例抵消世界重力
+    const counterGravity = () => {
+      const { gravity } = this.physics.engine;
+      for (const { type, body } of this.active.values()) {
+        const cancel = 1 - (projectileTypes.get(type)?.gravity ?? 0);
+        body.force.x -= body.mass * gravity.x * gravity.scale * cancel;
+        body.force.y -= body.mass * gravity.y * gravity.scale * cancel;
+      }
+    };
+    Matter.Events.on(this.physics.engine, "beforeUpdate", counterGravity);
+    this.unsubscribe.push(() => Matter.Events.off(this.physics.engine, "beforeUpdate", counterGravity));
+  }
+
+  update(delta: number): void {
+    for (const entity of this.entities.query("ranged", "physicsBody")) {
+      const ranged = entity.requireComponent("ranged");
+      ranged.cooldownRemaining = Math.max(0, ranged.cooldownRemaining - delta);
+      const direction = ranged.pendingShot;
+      ranged.pendingShot = null;
+      if ((entity.getComponent("health")?.current ?? 1) <= 0) continue;
+      if (direction && ranged.cooldownRemaining === 0 && this.combat.spendStamina(entity, ranged.staminaCost ?? 0)) {
+        if (this.fire(entity, ranged.projectile, direction)) {
+          ranged.cooldownRemaining = ranged.cooldown;
+        }
+      }
+    }
+
+    for (const { projectile, other } of this.contacts.splice(0)) {
+      this.resolveContact(projectile, other);
+    }
+
+    for (const projectile of [...this.active.values()]) {
+      projectile.remaining -= delta;
+      if (projectile.remaining <= 0) {
+        this.despawn(projectile);
+        continue;
+      }
+      this.syncView(projectile);
+    }
+  }
+
+  /**
+   * 从 owner 身边朝 direction 发射一枚弹道；弹道类型未注册或方向为零时返回 false
+   */
+  fire(owner: BaseEntity, typeName: string, direction: Vector2): boolean {
+    const type = projectileTypes.get(typeName);
+    const length = Math.hypot(direction.x, direction.y);
+    if (!type || length === 0) return false;
+
+    const facing = { x: direction.x / length, y: direction.y / length };
+    const ownerBody = owner.getBody();
+    const { min, max } = ownerBody.bounds;
+    const offset = Math.max(max.x - min.x, max.y - min.y) / 2 + type.radius + SPAWN_GAP;
+
+    // 发射者使用独立的负分组，同组刚体之间不产生碰撞
+    if (ownerBody.collisionFilter.group === 0) {
+      ownerBody.collisionFilter.group = Body.nextGroup(true);
+    }
+
+    const projectile = this.getPool(typeName).acquire();
+    projectile.owner = owner;
+    projectile.faction = owner.getComponent("faction")?.id ?? null;
+    projectile.damage = type.damage + (owner.getComponent("combat")?.bonusDamage ?? 0);
+    projectile.remaining = type.lifetime;
+    projectile.pierceLeft = type.pierce;
+
+    const { body } = projectile;
+    body.collisionFilter.group = ownerBody.collisionFilter.group;
+    Body.setPosition(body, { x: ownerBody.position.x + facing.x * offset, y: ownerBody.position.y + facing.y * offset });
+    Body.setVelocity(body, { x: facing.x * type.speed, y: facing.y * type.speed });
+    Sleeping.set(body, false);
+    this.physics.addBody(body);
+    this.active.set(body.id, projectile);
+
+    if (projectile.view) {
+      this.rendering?.getStage().addChild(projectile.view);
+      this.syncView(projectile);
+    }
+    this.eventBus.emit("projectile:fired", { owner, projectile: typeName, direction: facing });
+    return true;
+  }
+
+  /**
+   * 移除全部飞行中的弹道，用于离开当前世界
+   */
+  clear(): void {
+    [...this.active.values()].forEach((projectile) => this.despawn(projectile));
+    this.contacts.length = 0;
+  }
+
+  getActiveCount(): number {
+    return this.active.size;
+  }
+
+  destroy(): void {
+    this.clear();
+    this.unsubscribe.forEach((dispose) => dispose());
+    this.unsubscribe = [];
+  }
+
+  private resolveContact(projectile: Projectile, other: Body): void {
+    // 同一帧内可能已经因为其他碰撞而消失
+    if (!this.active.has(projectile.body.id)) return;
+
+    const target = this.entities.getEntityByBody(other);
+    if (!target) {
+      // 地形等障碍物挡住弹道，其他传感器不影响
+      if (!other.isSensor) this.impact(projectile, null);
+      return;
+    }
+    if (target === projectile.owner || projectile.hits.has(target.id)) return;
+    if (projectile.faction && target.getComponent("faction")?.id === projectile.faction) return;
+
+    projectile.hits.add(target.id);
+    const type = projectileTypes.get(projectile.type);
+    this.combat.applyDamage(target, projectile.damage, {
+      source: projectile.owner,
+      direction: { ...projectile.body.velocity },
+      knockback: type?.knockback ?? 0,
+    });
+
+    if (projectile.pierceLeft > 0) {
+      projectile.pierceLeft -= 1;
+      this.emitImpact(projectile, target);
+    } else {
+      this.impact(projectile, target);
+    }
+  }
+
+  private impact(projectile: Projectile, target: BaseEntity | null): void {
+    this.emitImpact(projectile, target);
+    this.despawn(projectile);
+  }
+
+  private emitImpact(projectile: Projectile, target: BaseEntity | null): void {
+    const position = { ...projectile.body.position };
+    const color = projectileTypes.get(projectile.type)?.impactColor ?? 0xffffff;
+    this.rendering?.getParticleSystem().emit(position, color, IMPACT_PARTICLES);
+    this.eventBus.emit("projectile:impact", { owner: projectile.owner, projectile: projectile.type, position, target });
+  }
+
+  private despawn(projectile: Projectile): void {
+    this.active.delete(projectile.body.id);
+    this.physics.removeBody(projectile.body);
+    if (projectile.view) {
+      this.rendering?.getStage().removeChild(projectile.view);
+    }
+    this.getPool(projectile.type).release(projectile);
+  }
+
+  private syncView(projectile: Projectile): void {
+    const { view, body } = projectile;
+    if (!view) return;
+    view.position.set(body.position.x, body.position.y);
+    view.rotation = Math.atan2(body.velocity.y, body.velocity.x);
+  }
+
+  private getPool(typeName: string): ObjectPool<Projectile> {
+    let pool = this.pools.get(typeName);
+    if (!pool) {
+      pool = new ObjectPool(() => this.createProjectile(typeName), resetProjectile);
+      this.pools.set(typeName, pool);
+    }
+    return pool;
+  }
+
+  private createProjectile(typeName: string): Projectile {
+    const type = projectileTypes.get(typeName)!;
+    const body = Bodies.circle(0, 0, type.radius, {
+      isSensor: true,
+      frictionAir: 0,
+      inertia: Infinity,
+      label: "projectile",
+      collisionFilter: { category: PROJECTILE_CATEGORY, mask: ~PROJECTILE_CATEGORY },
+    });
+    body.sleepThreshold = Infinity;
+
+    // 无头模式下没有渲染系统，弹道不创建图形
+    let view: Graphics | null = null;
+    if (this.rendering) {
+      view = new Graphics();
+      view.zIndex = 13;
+      if (type.shape === "line") {
+        view.rect(-type.radius * 3, -1, type.radius * 6, 2).fill(type.color);
+      } else {
+        view.circle(0, 0, type.radius).fill(type.color);
+      }
+    }
+
+    return {
+      type: typeName,
+      body,
+      view,
+      owner: null,
+      faction: null,
+      damage: 0,
+      remaining: 0,
+      pierceLeft: 0,
+      hits: new Set(),
+    };
+  }
+}
+
+function resetProjectile(projectile: Projectile): void {
+  projectile.owner = null;
+  projectile.faction = null;
+  projectile.hits.clear();
+  projectile.body.collisionFilter.group = 0;
+  Body.setVelocity(projectile.body, { x: 0, y: 0 });
+}
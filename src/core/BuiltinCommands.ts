@@ -0,0 +1,233 @@
+import { Body } from "matter-js";
+import { AIManager } from "@/ai/AIManager";
+import { getFaction, listFactions, RelationshipSystem } from "@/ai/RelationshipSystem";
+import { listProjectileTypes } from "@/combat/ProjectileSystem";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { AttributeName } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { ATTRIBUTE_NAMES, VitalsSystem } from "@/survival/VitalsSystem";
+import { WeatherType } from "@/types";
+import { WEATHER_TYPES } from "@/world/WeatherSystem";
+import { WorldManager } from "@/world/WorldManager";
+import { CommandRegistry } from "./CommandRegistry";
+import { InputManager } from "./InputManager";
+
+export interface BuiltinCommandDeps {
+  entities: EntityManager;
+  world: WorldManager;
+  ai: AIManager;
+  input: InputManager;
+  vitals: VitalsSystem;
+  relationships: RelationshipSystem;
+}
+
+/**
+ * 注册引擎自带的调试命令
+ */
+export function registerBuiltinCommands(registry: CommandRegistry, deps: BuiltinCommandDeps): void {
+  const { entities, world, ai, input, vitals, relationships } = deps;
+
+  const findNPC = (idOrName: string): BaseEntity | undefined =>
+    entities.getNPCs().find((npc) => npc.id === idOrName || npc.getDisplayName() === idOrName);
+
+  registry.register({
+    name: "help",
+    description: "列出全部命令，或查看某个命令的用法",
+    args: [{ name: "command", type: "string", optional: true, choices: () => registry.list().map((command) => command.name) }],
+    execute: ({ command }) => {
+      if (command !== undefined) {
+        const target = registry.get(String(command))!;
+        return [registry.usage(target), target.description];
+      }
+      return registry.list().map((entry) => `${registry.usage(entry)} - ${entry.description}`);
+    },
+  });
+
+  registry.register({
+    name: "spawn",
+    description: "在光标位置生成 NPC 或敌人",
+    args: [
+      { name: "type", type: "string", choices: () => entities.getEntityTypes() },
+      { name: "name", type: "string", optional: true },
+    ],
+    execute: ({ type, name }) => {
+      const position = input.getPointerWorldPosition();
+      const entity = entities.spawn(String(type), position, name === undefined ? undefined : { name });
+      return `已生成 ${entity.id} (${type}) 于 (${position.x.toFixed(0)}, ${position.y.toFixed(0)})`;
+    },
+  });
+
+  registry.register({
+    name: "teleport",
+    description: "把玩家传送到指定坐标，省略坐标时传送到光标位置",
+    args: [
+      { name: "x", type: "number", optional: true },
+      { name: "y", type: "number", optional: true },
+    ],
+    execute: ({ x, y }) => {
+      if ((x === undefined) !== (y === undefined)) {
+        throw new Error("需要同时提供 x 和 y");
+      }
+      const target = x === undefined ? input.getPointerWorldPosition() : { x: Number(x), y: Number(y) };
+      const body = entities.getPlayer().getBody();
+      Body.setPosition(body, target);
+      Body.setVelocity(body, { x: 0, y: 0 });
+      input.clearMouseTarget();
+      world.focusPosition(target);
+      return `玩家已传送到 (${target.x.toFixed(0)}, ${target.y.toFixed(0)})`;
+    },
+  });
+
+  registry.register({
+    name: "time",
+    description: "设置一天中的时间（0-24 小时）",
+    args: [{ name: "hour", type: "number" }],
+    execute: ({ hour }) => {
+      world.setTimeOfDay(Number(hour));
+      return `时间已设为 ${world.getState().timeOfDay.toFixed(2)}`;
+    },
+  });
+
+  registry.register({
+    name: "day",
+    description: "设置已经过的天数",
+    args: [{ name: "count", type: "integer" }],
+    execute: ({ count }) => {
+      world.setDayCount(Number(count));
+      return `天数已设为 ${world.getState().dayCount}`;
+    },
+  });
+
+  registry.register({
+    name: "weather",
+    description: "强制切换天气",
+    args: [{ name: "type", type: "string", choices: WEATHER_TYPES }],
+    execute: ({ type }) => {
+      world.setWeather(type as WeatherType);
+      return `天气已切换为 ${type}`;
+    },
+  });
+
+  registry.register({
+    name: "npcstate",
+    description: "输出 NPC 的 AI 状态（按实体 ID 或名字）",
+    args: [{ name: "npc", type: "string", choices: () => entities.getNPCs().flatMap((npc) => [npc.id, npc.getDisplayName()]) }],
+    execute: ({ npc }) => {
+      const target = findNPC(String(npc));
+      const state = target ? ai.getNPCState(target.id) : null;
+      if (!target || !state) {
+        throw new Error(`找不到 NPC: ${npc}`);
+      }
+      return `${target.getDisplayName()} ${JSON.stringify(state, null, 2)}`;
+    },
+  });
+
+  registry.register({
+    name: "attr",
+    description: "把一个属性点分配给力量、耐力或体质",
+    args: [{ name: "attribute", type: "string", choices: ATTRIBUTE_NAMES }],
+    execute: ({ attribute }) => {
+      const player = entities.getPlayer();
+      if (!vitals.spendAttributePoint(player, attribute as AttributeName)) {
+        throw new Error("没有可分配的属性点");
+      }
+      const state = player.requireComponent("vitals");
+      return `${attribute} 提升到 ${state.attributes[attribute as AttributeName]}，剩余属性点 ${state.attributePoints}`;
+    },
+  });
+
+  registry.register({
+    name: "use",
+    description: "食用背包中的物品",
+    args: [{ name: "item", type: "string", choices: () => entities.getPlayer().getComponent("inventory")?.inventory.listItems().map((item) => item.id) ?? [] }],
+    execute: ({ item }) => {
+      if (!vitals.consume(entities.getPlayer(), String(item))) {
+        throw new Error(`无法食用: ${item}`);
+      }
+      return `已食用 ${item}`;
+    },
+  });
+
+  registry.register({
+    name: "weapon",
+    description: "切换玩家远程攻击发射的弹道",
+    args: [{ name: "projectile", type: "string", choices: () => listProjectileTypes() }],
+    execute: ({ projectile }) => {
+      const ranged = entities.getPlayer().getComponent("ranged");
+      if (!ranged) {
+        throw new Error("玩家没有远程武器");
+      }
+      ranged.projectile = String(projectile);
+      return `远程攻击已切换为 ${projectile}`;
+    },
+  });
+
+  registry.register({
+    name: "gift",
+    description: "把背包中的一件物品送给 NPC",
+    args: [
+      { name: "npc", type: "string", choices: () => entities.getNPCs().flatMap((npc) => [npc.id, npc.getDisplayName()]) },
+      { name: "item", type: "string", choices: () => entities.getPlayer().getComponent("inventory")?.inventory.listItems().map((item) => item.id) ?? [] },
+    ],
+    execute: ({ npc: idOrName, item }) => {
+      const npc = findNPC(String(idOrName));
+      if (!npc) {
+        throw new Error(`找不到 NPC: ${idOrName}`);
+      }
+      if (!relationships.giveGift(npc, String(item))) {
+        throw new Error(`${npc.getDisplayName()} 没有收下 ${item}`);
+      }
+      const { affection, trust } = relationships.getRelationship(npc);
+      return `${npc.getDisplayName()} 收下了 ${item}，好感 ${affection}，信任 ${trust}`;
+    },
+  });
+
+  registry.register({
+    name: "relation",
+    description: "查看 NPC 对玩家的关系，省略时列出各阵营的声望",
+    args: [{ name: "npc", type: "string", optional: true, choices: () => entities.getNPCs().flatMap((npc) => [npc.id, npc.getDisplayName()]) }],
+    execute: ({ npc: idOrName }) => {
+      if (idOrName !== undefined) {
+        const npc = findNPC(String(idOrName));
+        if (!npc) {
+          throw new Error(`找不到 NPC: ${idOrName}`);
+        }
+        const { affection, trust } = relationships.getRelationship(npc);
+        return `${npc.getDisplayName()}：好感 ${affection}，信任 ${trust}${relationships.isHostile(npc) ? "（敌对）" : ""}`;
+      }
+      return listFactions().map((faction) => {
+        const standing = relationships.getStanding(faction);
+        return `${getFaction(faction)?.name ?? faction} (${faction})：声望 ${standing}${relationships.isFactionHostile(faction) ? "（敌对）" : ""}`;
+      });
+    },
+  });
+
+  registry.register({
+    name: "resetai",
+    description: "重置 AI 调用预算",
+    execute: () => {
+      ai.resetBudget();
+      return `AI 调用预算已重置为 ${ai.getRemainingBudget()}`;
+    },
+  });
+
+  registry.register({
+    name: "entities",
+    description: "列出实体，可按类型过滤",
+    args: [{ name: "type", type: "string", optional: true, choices: () => ["player", ...entities.getEntityTypes()] }],
+    execute: ({ type }) => {
+      const list = entities.listEntities().filter((entity) => type === undefined || entity.type === type);
+      return [
+        `共 ${list.length} 个实体`,
+        ...list.map((entity) => {
+          const { x, y } = entity.getBody().position;
+          const name = entity.getDisplayName();
+          const label = name === entity.id ? "" : ` ${name}`;
+          const health = entity.getComponent("health");
+          const hp = health ? ` HP ${health.current.toFixed(0)}/${health.max}` : "";
+          return `${entity.id} [${entity.type}]${label}${hp} (${x.toFixed(0)}, ${y.toFixed(0)})`;
+        }),
+      ];
+    },
+  });
+}
@@ -0,0 +1,177 @@
+export type CommandArgType = "string" | "number" | "integer";
+
+export interface CommandArgSpec {
+  name: string;
+  type: CommandArgType;
+  optional?: boolean;
+  /** 可选值列表，用于校验与自动补全；传函数时每次补全重新获取 */
+  choices?: readonly string[] | (() => readonly string[]);
+  description?: string;
+}
+
+export type CommandArgs = Record<string, string | number | undefined>;
+
+export type CommandOutput = string | string[] | void;
+
+export interface ConsoleCommand {
+  name: string;
+  description: string;
+  args?: CommandArgSpec[];
+  execute(args: CommandArgs): CommandOutput | Promise<CommandOutput>;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  lines: string[];
+}
+
+export interface CompletionResult {
+  /** 正在补全的词之前的部分，补全时保持不变 */
+  prefix: string;
+  candidates: string[];
+}
+
+/**
+ * 开发者控制台的命令注册表。与界面无关，无头模式下也可直接执行命令
+ */
+export class CommandRegistry {
+  private readonly commands = new Map<string, ConsoleCommand>();
+
+  /**
+   * 注册命令，返回注销函数；同名命令会被覆盖
+   */
+  register(command: ConsoleCommand): () => void {
+    if (this.commands.has(command.name)) {
+      console.warn(`[CommandRegistry] 命令 ${command.name} 已存在，将被覆盖`);
+    }
+    this.commands.set(command.name, command);
+    return () => {
+      if (this.commands.get(command.name) === command) {
+        this.commands.delete(command.name);
+      }
+    };
+  }
+
+  get(name: string): ConsoleCommand | undefined {
+    return this.commands.get(name);
+  }
+
+  list(): ConsoleCommand[] {
+    return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 解析并执行一行命令；解析错误与命令抛出的异常都以失败结果返回
+   */
+  async execute(line: string): Promise<CommandResult> {
+    const tokens = tokenize(line);
+    if (tokens.length === 0) {
+      return { ok: true, lines: [] };
+    }
+
+    const [name, ...rawArgs] = tokens;
+    const command = this.commands.get(name);
+    if (!command) {
+      return { ok: false, lines: [`未知命令: ${name}，输入 help 查看全部命令`] };
+    }
+
+    try {
+      const args = parseArgs(command, rawArgs);
+      const output = await command.execute(args);
+      return { ok: true, lines: toLines(output) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, lines: [message] };
+    }
+  }
+
+  /**
+   * 根据已输入的内容给出当前词的候选：第一个词补全命令名，之后按参数的可选值补全
+   */
+  complete(line: string): CompletionResult {
+    const tokens = tokenize(line);
+    const completingNewToken = line.length === 0 || /\s$/.test(line);
+    const current = completingNewToken ? "" : tokens.pop() ?? "";
+    const prefix = completingNewToken ? line : line.slice(0, line.length - current.length);
+
+    if (tokens.length === 0) {
+      const candidates = this.list()
+        .map((command) => command.name)
+        .filter((name) => name.startsWith(current));
+      return { prefix, candidates };
+    }
+
+    const command = this.commands.get(tokens[0]);
+    const spec = command?.args?.[tokens.length - 1];
+    const candidates = spec ? resolveChoices(spec).filter((choice) => choice.startsWith(current)) : [];
+    return { prefix, candidates };
+  }
+
+  usage(command: ConsoleCommand): string {
+    return usageOf(command);
+  }
+}
+
+/**
+ * 按空白拆分命令行，支持用单引号或双引号包含空格
+ */
+export function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"?|'([^']*)'?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+function parseArgs(command: ConsoleCommand, rawArgs: string[]): CommandArgs {
+  const specs = command.args ?? [];
+  if (rawArgs.length > specs.length) {
+    throw new Error(`参数过多，用法: ${usageOf(command)}`);
+  }
+
+  const args: CommandArgs = {};
+  specs.forEach((spec, index) => {
+    const raw = rawArgs[index];
+    if (raw === undefined) {
+      if (!spec.optional) {
+        throw new Error(`缺少参数 ${spec.name}，用法: ${usageOf(command)}`);
+      }
+      return;
+    }
+    args[spec.name] = parseValue(spec, raw);
+  });
+  return args;
+}
+
+function parseValue(spec: CommandArgSpec, raw: string): string | number {
+  if (spec.type === "string") {
+    const choices = spec.choices ? resolveChoices(spec) : null;
+    if (choices && !choices.includes(raw)) {
+      throw new Error(`参数 ${spec.name} 必须是 ${choices.join(" / ")} 之一`);
+    }
+    return raw;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || (spec.type === "integer" && !Number.isInteger(value))) {
+    throw new Error(`参数 ${spec.name} 需要${spec.type === "integer" ? "整数" : "数字"}，收到 ${raw}`);
+  }
+  return value;
+}
+
+function resolveChoices(spec: CommandArgSpec): readonly string[] {
+  if (!spec.choices) return [];
+  return typeof spec.choices === "function" ? spec.choices() : spec.choices;
+}
+
+function usageOf(command: ConsoleCommand): string {
+  const args = (command.args ?? []).map((arg) => (arg.optional ? `[${arg.name}]` : `<${arg.name}>`));
+  return [command.name, ...args].join(" ");
+}
+
+function toLines(output: CommandOutput): string[] {
+  if (output === undefined) return [];
+  return Array.isArray(output) ? output : output.split("\n");
+}
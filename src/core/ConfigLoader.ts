@@ -0,0 +1,196 @@
+import { GameConfig } from "@/types";
+
+type ConfigFieldType = "integer" | "boolean";
+
+interface ConfigField {
+  key: keyof GameConfig;
+  type: ConfigFieldType;
+  min?: number;
+  max?: number;
+  /** 环境变量名 */
+  env: string;
+  /** URL 查询参数名 */
+  param: string;
+}
+
+const CONFIG_SCHEMA: ConfigField[] = [
+  { key: "seed", type: "integer", env: "GAME_WORLD_SEED", param: "seed" },
+  { key: "chunkSize", type: "integer", min: 16, max: 1024, env: "GAME_CHUNK_SIZE", param: "chunkSize" },
+  { key: "mapSizeChunks", type: "integer", min: 1, max: 1000, env: "GAME_MAP_SIZE", param: "mapSize" },
+  { key: "viewDistance", type: "integer", min: 1, max: 32, env: "GAME_VIEW_DISTANCE", param: "viewDistance" },
+  { key: "maxAiCallsPerHour", type: "integer", min: 0, env: "MAX_AI_CALLS_PER_HOUR", param: "aiCalls" },
+  { key: "enableDebug", type: "boolean", env: "ENABLE_DEBUG_MODE", param: "debug" },
+];
+
+export const DEFAULT_GAME_CONFIG: Omit<GameConfig, "seed"> = {
+  chunkSize: 64,
+  mapSizeChunks: 50,
+  viewDistance: 5,
+  maxAiCallsPerHour: 1000,
+  enableDebug: false,
+};
+
+export const CONFIG_PRESETS = {
+  default: {},
+  "small-test-world": {
+    mapSizeChunks: 16,
+    viewDistance: 3,
+    maxAiCallsPerHour: 0,
+    enableDebug: true,
+  },
+  "huge-world": {
+    chunkSize: 128,
+    mapSizeChunks: 200,
+    viewDistance: 4,
+  },
+} satisfies Record<string, Partial<GameConfig>>;
+
+export type ConfigPresetName = keyof typeof CONFIG_PRESETS;
+
+export interface ConfigSources {
+  /** 已解析的 JSON 配置文件内容 */
+  file?: unknown;
+  /** 形如 "?seed=1&preset=huge-world" 的查询字符串 */
+  query?: string;
+  env?: Record<string, string | boolean | undefined>;
+}
+
+export interface ConfigLoadOptions {
+  /** JSON 配置文件的 URL，读取失败时报错 */
+  fileUrl?: string;
+  query?: string;
+  env?: Record<string, string | boolean | undefined>;
+}
+
+/**
+ * 按 默认值 < 预设 < 配置文件 < 环境变量 < URL 参数 的优先级合并配置并校验。
+ * 预设名可以出现在任意一层（文件中的 preset 字段、GAME_CONFIG_PRESET、?preset=）
+ */
+export function resolveGameConfig(sources: ConfigSources = {}): GameConfig {
+  const errors: string[] = [];
+  // 每一层附带字段在该来源中的名字，错误信息里使用用户实际写下的名字
+  const layers: Array<[string, Partial<Record<keyof GameConfig, unknown>>, (field: ConfigField) => string]> = [];
+
+  const fileLayer = readFileLayer(sources.file, errors);
+  const envLayer: Partial<Record<keyof GameConfig, unknown>> = {};
+  const queryLayer: Partial<Record<keyof GameConfig, unknown>> = {};
+  const params = new URLSearchParams(sources.query ?? "");
+
+  for (const field of CONFIG_SCHEMA) {
+    const envValue = sources.env?.[field.env];
+    if (envValue !== undefined && envValue !== "") envLayer[field.key] = envValue;
+    const paramValue = params.get(field.param);
+    if (paramValue !== null) queryLayer[field.key] = paramValue;
+  }
+
+  const presetName = params.get("preset")
+    ?? (sources.env?.GAME_CONFIG_PRESET as string | undefined)
+    ?? fileLayer.preset;
+  if (presetName !== undefined && presetName !== "") {
+    if (presetName in CONFIG_PRESETS) {
+      layers.push([`preset "${presetName}"`, CONFIG_PRESETS[presetName as ConfigPresetName], (field) => field.key]);
+    } else {
+      errors.push(`unknown preset "${presetName}" (available: ${Object.keys(CONFIG_PRESETS).join(", ")})`);
+    }
+  }
+
+  layers.push(
+    ["config file", fileLayer.values, (field) => field.key],
+    ["environment", envLayer, (field) => field.env],
+    ["URL query", queryLayer, (field) => field.param],
+  );
+
+  const config: Record<string, unknown> = { ...DEFAULT_GAME_CONFIG, seed: Date.now() };
+  for (const [source, layer, nameOf] of layers) {
+    for (const field of CONFIG_SCHEMA) {
+      if (!(field.key in layer)) continue;
+      const value = coerce(field, layer[field.key], `${source}: ${nameOf(field)}`, errors);
+      if (value !== undefined) config[field.key] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid game config:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return config as unknown as GameConfig;
+}
+
+/**
+ * 读取配置文件（可选）后解析配置，供浏览器入口使用
+ */
+export async function loadGameConfig(options: ConfigLoadOptions = {}): Promise<GameConfig> {
+  let file: unknown;
+  if (options.fileUrl) {
+    const response = await fetch(options.fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load game config ${options.fileUrl}: HTTP ${response.status}`);
+    }
+    file = await response.json();
+  }
+  return resolveGameConfig({ file, query: options.query, env: options.env });
+}
+
+/**
+ * 校验一份完整配置，返回发现的问题（为空表示有效）
+ */
+export function validateGameConfig(config: GameConfig): string[] {
+  const errors: string[] = [];
+  for (const field of CONFIG_SCHEMA) {
+    coerce(field, config[field.key], field.key, errors, false);
+  }
+  return errors;
+}
+
+function readFileLayer(file: unknown, errors: string[]): { preset?: string; values: Partial<Record<keyof GameConfig, unknown>> } {
+  if (file === undefined) return { values: {} };
+  if (!file || typeof file !== "object" || Array.isArray(file)) {
+    errors.push("config file must contain a JSON object");
+    return { values: {} };
+  }
+
+  const { preset, ...rest } = file as Record<string, unknown>;
+  const known = new Set<string>(CONFIG_SCHEMA.map((field) => field.key));
+  Object.keys(rest)
+    .filter((key) => !known.has(key))
+    .forEach((key) => errors.push(`config file: unknown key "${key}"`));
+
+  if (preset !== undefined && typeof preset !== "string") {
+    errors.push(`config file: preset must be a string, got ${JSON.stringify(preset)}`);
+  }
+  return { preset: typeof preset === "string" ? preset : undefined, values: rest };
+}
+
+/**
+ * 把字符串或 JSON 值转换为字段类型并检查范围；allowStrings 为 false 时要求值已经是目标类型
+ */
+function coerce(
+  field: ConfigField,
+  raw: unknown,
+  label: string,
+  errors: string[],
+  allowStrings = true,
+): number | boolean | undefined {
+  const fail = (expected: string) => {
+    errors.push(`${label} must be ${expected}, got ${JSON.stringify(raw)}`);
+    return undefined;
+  };
+
+  if (field.type === "boolean") {
+    if (typeof raw === "boolean") return raw;
+    if (allowStrings && (raw === "true" || raw === "false")) return raw === "true";
+    return fail("true or false");
+  }
+
+  const value = typeof raw === "string" && allowStrings && raw.trim() !== "" ? Number(raw) : raw;
+  const { min, max } = field;
+  const range = min !== undefined && max !== undefined
+    ? ` between ${min} and ${max}`
+    : min !== undefined ? ` >= ${min}` : "";
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return fail(`an integer${range}`);
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    return fail(`an integer${range}`);
+  }
+  return value;
+}
@@ -1,50 +1,178 @@
-﻿export type EventPayload = Record<string, unknown> | void;
-export type EventListener<T = EventPayload> = (payload: T) => void;
+﻿import type { GameEvents } from "./GameEvents";
 
-export class EventBus {
-  private listeners: Map<string, Set<EventListener>> = new Map();
+type EventName<Events> = Extract<keyof Events, string>;
+type Namespace<Name extends string> = Name extends `${infer NS}:${string}` ? NS : never;
 
-  on<T = EventPayload>(event: string, listener: EventListener<T>): () => void {
-    const listeners = this.listeners.get(event) ?? new Set();
-    listeners.add(listener as EventListener);
-    this.listeners.set(event, listeners);
+/** 命名空间通配符（如 "npc:*"）或匹配全部事件的 "*" */
+export type WildcardPattern<Events> = `${Namespace<EventName<Events>>}:*` | "*";
+export type EventPattern<Events> = EventName<Events> | WildcardPattern<Events>;
 
-    return () => this.off(event, listener as EventListener);
+export type MatchedEvent<Events, Pattern extends string> = Pattern extends "*"
+  ? EventName<Events>
+  : Pattern extends `${infer NS}:*`
+    ? Extract<EventName<Events>, `${NS}:${string}`>
+    : Extract<Pattern, EventName<Events>>;
+
+export type EventListener<Events, Pattern extends EventPattern<Events>> = (
+  payload: Events[MatchedEvent<Events, Pattern>],
+  event: MatchedEvent<Events, Pattern>,
+) => void | Promise<void>;
+
+type EventArgs<Payload> = [Payload] extends [void] ? [] : [payload: Payload];
+
+export interface ListenerOptions {
+  /** 数值越大越先执行，默认 0 */
+  priority?: number;
+}
+
+export interface EventRecord {
+  event: string;
+  payload: unknown;
+  timestamp: number;
+}
+
+type AnyListener = (payload: unknown, event: string) => void | Promise<void>;
+
+interface ListenerEntry {
+  listener: AnyListener;
+  priority: number;
+  order: number;
+}
+
+export class EventBus<Events extends object = GameEvents> {
+  private listeners: Map<string, ListenerEntry[]> = new Map();
+  private listenerOrder = 0;
+  private history: EventRecord[] | null = null;
+  private historyCapacity = 0;
+  private historyIndex = 0;
+
+  on<Pattern extends EventPattern<Events>>(
+    event: Pattern,
+    listener: EventListener<Events, Pattern>,
+    options: ListenerOptions = {},
+  ): () => void {
+    const entries = this.listeners.get(event) ?? [];
+    entries.push({
+      listener: listener as AnyListener,
+      priority: options.priority ?? 0,
+      order: (this.listenerOrder += 1),
+    });
+    entries.sort(compareEntries);
+    this.listeners.set(event, entries);
+
+    return () => this.off(event, listener);
   }
 
-  once<T = EventPayload>(event: string, listener: EventListener<T>): () => void {
-    const wrapper: EventListener<T> = (payload) => {
-      this.off(event, wrapper as EventListener);
-      listener(payload);
+  once<Pattern extends EventPattern<Events>>(
+    event: Pattern,
+    listener: EventListener<Events, Pattern>,
+    options?: ListenerOptions,
+  ): () => void {
+    const wrapper: EventListener<Events, Pattern> = (payload, name) => {
+      this.off(event, wrapper);
+      return listener(payload, name);
     };
 
-    return this.on(event, wrapper);
+    return this.on(event, wrapper, options);
   }
 
-  off<T = EventPayload>(event: string, listener: EventListener<T>): void {
-    const listeners = this.listeners.get(event);
-    if (!listeners) return;
+  off<Pattern extends EventPattern<Events>>(event: Pattern, listener: EventListener<Events, Pattern>): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
 
-    listeners.delete(listener as EventListener);
-    if (listeners.size === 0) {
+    const index = entries.findIndex((entry) => entry.listener === listener);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
       this.listeners.delete(event);
     }
   }
 
-  emit<T = EventPayload>(event: string, payload: T extends void ? undefined : T): void {
-    const listeners = this.listeners.get(event);
-    if (!listeners) return;
+  emit<Name extends EventName<Events>>(event: Name, ...args: EventArgs<Events[Name]>): void {
+    const payload = args[0];
+    this.record(event, payload);
 
-    listeners.forEach((listener) => {
+    for (const { listener } of this.collect(event)) {
       try {
-        listener(payload as EventPayload);
+        const result = listener(payload, event);
+        if (result instanceof Promise) {
+          result.catch((error) => console.error(`[EventBus] Async listener for "${event}" rejected`, error));
+        }
       } catch (error) {
         console.error(`[EventBus] Listener for "${event}" threw`, error);
       }
-    });
+    }
+  }
+
+  /**
+   * 按优先级依次执行并等待每个监听器（包括异步监听器）完成
+   */
+  async emitAsync<Name extends EventName<Events>>(event: Name, ...args: EventArgs<Events[Name]>): Promise<void> {
+    const payload = args[0];
+    this.record(event, payload);
+
+    for (const { listener } of this.collect(event)) {
+      try {
+        await listener(payload, event);
+      } catch (error) {
+        console.error(`[EventBus] Listener for "${event}" threw`, error);
+      }
+    }
+  }
+
+  /**
+   * 开启最近事件的环形缓冲记录，capacity 为 0 时关闭
+   */
+  enableHistory(capacity: number): void {
+    this.historyCapacity = Math.max(0, Math.floor(capacity));
+    this.history = this.historyCapacity > 0 ? [] : null;
+    this.historyIndex = 0;
+  }
+
+  /**
+   * 按发生顺序返回记录的事件
+   */
+  getHistory(): EventRecord[] {
+    if (!this.history) return [];
+    if (this.history.length < this.historyCapacity) return [...this.history];
+    return [...this.history.slice(this.historyIndex), ...this.history.slice(0, this.historyIndex)];
+  }
+
+  clearHistory(): void {
+    if (this.history) {
+      this.history = [];
+      this.historyIndex = 0;
+    }
   }
 
   clear(): void {
     this.listeners.clear();
   }
+
+  private collect(event: string): ListenerEntry[] {
+    const separator = event.indexOf(":");
+    const patterns = separator === -1 ? [event, "*"] : [event, `${event.slice(0, separator)}:*`, "*"];
+
+    const matched: ListenerEntry[] = [];
+    for (const pattern of patterns) {
+      const entries = this.listeners.get(pattern);
+      if (entries) matched.push(...entries);
+    }
+    return matched.sort(compareEntries);
+  }
+
+  private record(event: string, payload: unknown): void {
+    if (!this.history) return;
+
+    const entry: EventRecord = { event, payload, timestamp: Date.now() };
+    if (this.history.length < this.historyCapacity) {
+      this.history.push(entry);
+    } else {
+      this.history[this.historyIndex] = entry;
+      this.historyIndex = (this.historyIndex + 1) % this.historyCapacity;
+    }
+  }
 }
+
+const compareEntries = (a: ListenerEntry, b: ListenerEntry): number => b.priority - a.priority || a.order - b.order;
@@ -1,18 +1,47 @@
 ﻿import { EventBus } from "./EventBus";
 import { GameSystem, SystemManager } from "./SystemManager";
-import { InputManager } from "./InputManager";
+import { InputManager, InputSource } from "./InputManager";
+import { ManualClock } from "./ManualClock";
+import { GameState, GameStateMachine, LoadingPhase } from "./GameStateMachine";
+import { CommandRegistry } from "./CommandRegistry";
+import { registerBuiltinCommands } from "./BuiltinCommands";
+import { PerformanceProfiler } from "./PerformanceProfiler";
 import { PhysicsEngine } from "@/physics/PhysicsEngine";
 import { CollisionManager } from "@/physics/CollisionManager";
 import { RenderingSystem, RenderingOptions } from "@/rendering/RenderingSystem";
+import { AnimationSystem } from "@/rendering/AnimationSystem";
 import { WorldManager } from "@/world/WorldManager";
+import { Pathfinder } from "@/world/Pathfinder";
+import { SpawnSystem } from "@/world/SpawnSystem";
+import { PluginManager } from "@/plugins/PluginManager";
+import { GamePlugin } from "@/plugins/PluginTypes";
 import { EntityManager } from "@/entities/EntityManager";
+import { CombatSystem } from "@/combat/CombatSystem";
+import { ProjectileSystem } from "@/combat/ProjectileSystem";
+import { VitalsSystem } from "@/survival/VitalsSystem";
 import { AIManager, AIManagerOptions } from "@/ai/AIManager";
+import { EnemyAISystem } from "@/ai/EnemyAISystem";
+import { NPCActionSystem } from "@/ai/NPCActionSystem";
+import { RelationshipSystem } from "@/ai/RelationshipSystem";
+import { ScheduleSystem } from "@/ai/ScheduleSystem";
 import { UIManager } from "@/ui/UIManager";
 import { Player } from "@/entities/Player";
+import { Inventory } from "@/ui/Inventory";
+import { SaveManager } from "@/save/SaveManager";
+import { createSaveStorage, SaveStorageKind } from "@/save/SaveStorage";
+import { InputRecorder } from "@/replay/InputRecorder";
+import { ReplayPlayer } from "@/replay/ReplayPlayer";
+import { ReplayFile } from "@/replay/ReplayTypes";
+import { ScriptedInputSource } from "@/replay/ScriptedInputSource";
+import { RandomStreams } from "@/utils/RandomStreams";
 import { GameConfig } from "@/types";
+import { DEFAULT_GAME_CONFIG, validateGameConfig } from "./ConfigLoader";
 
 export interface GameEngineOptions {
-  container: HTMLElement;
+  /** 无头模式下可省略 */
+  container?: HTMLElement;
+  /** 不创建 PixiJS 渲染、DOM UI 与浏览器输入，由 ManualClock 驱动更新 */
+  headless?: boolean;
   width?: number;
   height?: number;
   seed: number;
@@ -22,6 +51,21 @@ export interface GameEngineOptions {
   deepSeekBaseUrl?: string;
   kimiApiKey?: string;
   kimiBaseUrl?: string;
+  saveStorage?: SaveStorageKind;
+  /** 录制输入与 AI 决策，通过 stopRecording() 导出；每个新世界重新开始录制，读档的世界不录制 */
+  recordInput?: boolean;
+  /** 回放模式：忽略实时输入与 seed，按录制文件逐帧复现 */
+  replay?: ReplayFile;
+  /** 插件清单的 URL，启动时加载其中的插件与内容包 */
+  pluginManifest?: string;
+  /** 直接传入的插件，在清单中的插件之后加载 */
+  plugins?: GamePlugin[];
+  /** 加载阶段预载的资源 URL（PixiJS Assets） */
+  assets?: string[];
+  /** 世界尺寸等配置，通常来自 loadGameConfig；seed、maxAiCallsPerHour、debug 以上面的选项为准 */
+  config?: Partial<GameConfig>;
+  /** 跳过主菜单，初始化后直接以 seed 生成世界；无头模式与回放模式总是跳过 */
+  skipMenu?: boolean;
 }
 
 export class GameEngine {
@@ -31,12 +75,35 @@ export class GameEngine {
 
   private readonly physics = new PhysicsEngine();
   private readonly collisions: CollisionManager;
-  private readonly rendering: RenderingSystem;
+  private readonly rendering: RenderingSystem | null;
   private readonly world: WorldManager;
   private readonly entities: EntityManager;
+  private readonly combat: CombatSystem;
+  private readonly projectiles: ProjectileSystem;
+  private readonly vitals: VitalsSystem;
   private readonly ai: AIManager;
-  private readonly ui: UIManager;
+  private readonly enemyAI: EnemyAISystem;
+  private readonly npcActions: NPCActionSystem;
+  private readonly relationships: RelationshipSystem;
+  private readonly schedules: ScheduleSystem;
+  private readonly animations: AnimationSystem;
+  private readonly ui: UIManager | null;
+  private readonly clock = new ManualClock((delta) => this.runFrame(delta));
+  private readonly inventory = new Inventory();
+  private readonly saves: SaveManager;
+  private random: RandomStreams;
+  private readonly state: GameStateMachine;
+  private readonly config: GameConfig;
+  private readonly playerInput: InputSource;
+  private recorder: InputRecorder | null = null;
+  private readonly replayPlayer: ReplayPlayer | null = null;
 
+  private readonly pathfinder: Pathfinder;
+  private readonly spawner: SpawnSystem;
+  private readonly commands = new CommandRegistry();
+  private readonly plugins = new PluginManager(this);
+  private readonly profiler: PerformanceProfiler;
+  private lastFrameAt: number | null = null;
   private player!: Player;
   private started = false;
 
@@ -45,27 +112,61 @@ export class GameEngine {
     const width = options.width ?? 1280;
     const height = options.height ?? 720;
 
-    console.log(`[GameEngine] 初始化游戏引擎，尺寸: ${width}x${height}`);
+    const headless = Boolean(options.headless);
 
-    const renderingOptions: RenderingOptions = {
-      container: options.container,
-      width,
-      height,
-      background: 0x0a0a0a,
-    };
+    console.log(`[GameEngine] 初始化游戏引擎，尺寸: ${width}x${height}，无头模式: ${headless}`);
+
+    if (!headless && !options.container) {
+      throw new Error("GameEngine requires a container unless running headless");
+    }
+
+    const seed = options.replay?.seed ?? options.seed;
+    this.random = new RandomStreams(seed);
+    this.state = new GameStateMachine(this.eventBus);
 
     const gameConfig: GameConfig = {
-      worldSizeKm: 1100,
-      chunkSizeMeters: 256,
-      seed: options.seed,
+      ...DEFAULT_GAME_CONFIG,
+      ...options.config,
+      seed,
       maxAiCallsPerHour: options.maxAiCallsPerHour,
-      enableDebug: Boolean(options.debug),
+      enableDebug: options.debug ?? options.config?.enableDebug ?? DEFAULT_GAME_CONFIG.enableDebug,
     };
+    const configErrors = validateGameConfig(gameConfig);
+    if (configErrors.length > 0) {
+      throw new Error(`Invalid game config:\n${configErrors.map((error) => `  - ${error}`).join("\n")}`);
+    }
+    this.config = gameConfig;
+
+    // 调试模式下保留最近的事件，供调试工具查看
+    if (gameConfig.enableDebug) {
+      this.eventBus.enableHistory(200);
+    }
+
+    if (headless) {
+      this.rendering = null;
+    } else {
+      const renderingOptions: RenderingOptions = {
+        container: options.container!,
+        width,
+        height,
+        background: 0x0a0a0a,
+      };
+      this.rendering = new RenderingSystem(renderingOptions);
+    }
 
-    this.rendering = new RenderingSystem(renderingOptions);
-    this.world = new WorldManager(gameConfig, this.eventBus);
+    this.world = new WorldManager(gameConfig, this.eventBus, this.random);
+    this.pathfinder = new Pathfinder(this.physics, this.world);
     this.entities = new EntityManager(this.physics, this.rendering, this.world, this.eventBus);
     this.collisions = new CollisionManager(this.physics.engine, this.eventBus);
+    this.combat = new CombatSystem(this.entities, this.eventBus, this.random);
+    this.projectiles = new ProjectileSystem(this.physics, this.entities, this.combat, this.rendering, this.eventBus);
+    this.vitals = new VitalsSystem(this.entities, this.world, this.eventBus);
+    this.npcActions = new NPCActionSystem(this.entities, this.world, this.pathfinder, this.eventBus, this.random);
+    this.relationships = new RelationshipSystem(this.entities, this.npcActions, this.eventBus);
+    this.enemyAI = new EnemyAISystem(this.entities, this.world, this.relationships, this.eventBus, this.random);
+    this.schedules = new ScheduleSystem(this.entities, this.world, this.npcActions, this.eventBus);
+    this.animations = new AnimationSystem(this.entities, this.eventBus);
+    this.spawner = new SpawnSystem(this.entities, this.world, this.pathfinder, this.eventBus, this.random);
 
     const aiOptions: AIManagerOptions = {
       maxCallsPerHour: options.maxAiCallsPerHour,
@@ -79,48 +180,197 @@ export class GameEngine {
       },
     };
 
-    this.ai = new AIManager(this.world, this.entities, this.eventBus, aiOptions);
-    this.ui = new UIManager(this.ai, this.eventBus);
-
-    [this.physics, this.world, this.entities, this.ai, this.rendering, this.ui].forEach((system) =>
-      this.systemManager.register(system as GameSystem),
+    this.ai = new AIManager(this.world, this.entities, this.relationships, this.eventBus, aiOptions, this.random);
+    this.profiler = new PerformanceProfiler({
+      systems: this.systemManager,
+      physics: this.physics,
+      rendering: this.rendering,
+      entities: this.entities,
+      ai: this.ai,
+      getSeed: () => this.random.getSeed(),
+    });
+    this.ui = headless
+      ? null
+      : new UIManager(this.ai, this.entities, this.eventBus, this.inventory, this.inputManager, this.commands, this.profiler);
+    this.saves = new SaveManager(
+      { world: this.world, entities: this.entities, ai: this.ai, inventory: this.inventory, relationships: this.relationships },
+      createSaveStorage(options.saveStorage),
+      this.eventBus,
     );
+
+    registerBuiltinCommands(this.commands, {
+      entities: this.entities,
+      world: this.world,
+      ai: this.ai,
+      input: this.inputManager,
+      vitals: this.vitals,
+      relationships: this.relationships,
+    });
+
+    [this.physics, this.world, this.entities, this.spawner, this.combat, this.projectiles, this.vitals, this.enemyAI, this.npcActions, this.relationships, this.schedules, this.ai, this.animations, this.rendering, this.ui].forEach((system) => {
+      if (system) this.systemManager.register(system as GameSystem);
+    });
+
+    if (options.replay) {
+      const scripted = new ScriptedInputSource();
+      this.playerInput = scripted;
+      this.ai.setExternalDecisions(true);
+      this.replayPlayer = new ReplayPlayer(
+        options.replay,
+        scripted,
+        this.physics,
+        this.entities,
+        this.ai,
+        this.eventBus,
+      );
+    } else {
+      this.playerInput = this.inputManager;
+    }
   }
 
+  /**
+   * 加载插件、系统与资源。完成后进入主菜单；
+   * 无头模式、回放模式或 skipMenu 时直接生成世界并进入 playing
+   */
   async initialize(): Promise<void> {
+    this.state.begin();
+
+    // 插件需要在系统初始化和地图生成之前注册系统与群系
+    this.reportProgress("plugins", 0);
+    await this.loadPlugins();
+    this.reportProgress("plugins", 1);
+
+    this.reportProgress("systems", 0);
     await this.systemManager.initializeAll();
-    
+    this.reportProgress("systems", 1);
+
+    this.reportProgress("assets", 0);
+    await this.rendering?.loadAssets(this.options.assets ?? [], (progress) => this.reportProgress("assets", progress));
+    this.reportProgress("assets", 1);
+
     // 获取canvas元素并传递给InputManager
-    const app = this.rendering.getApplication();
-    const canvas = app.canvas as HTMLCanvasElement;
-    this.inputManager.initialize(canvas);
+    if (this.rendering) {
+      const app = this.rendering.getApplication();
+      const canvas = app.canvas as HTMLCanvasElement;
+      this.inputManager.initialize(canvas);
+      const camera = this.rendering.getCamera();
+      this.inputManager.setPointerTransform((point) => camera.screenToWorld(point));
+    }
     
     this.collisions.initialize();
-    
-    // 预加载地图并渲染
-    console.log('[GameEngine] 开始预加载地图并渲染...');
-    await this.world.preloadMapAndRender(this.rendering.getTerrainRenderer());
-    console.log('[GameEngine] 地图预加载和渲染完成');
-    
-    await this.bootstrapWorld();
+
+    this.eventBus.on("combat:death", ({ entity }) => {
+      if (entity === this.player) this.gameOver("你被击败了");
+    });
+    this.eventBus.on("vitals:death", ({ entity, cause }) => {
+      if (entity === this.player) this.gameOver(cause === "hunger" ? "你饿死了" : "你渴死了");
+    });
+
+    if (this.options.headless || this.options.replay || this.options.skipMenu) {
+      await this.loadWorld(this.random.getSeed());
+      this.state.transition("playing");
+    } else {
+      this.state.transition("menu");
+    }
+  }
+
+  /**
+   * 以指定种子生成新世界并开始游戏（主菜单“新世界”或游戏结束后重新开始）
+   */
+  async startNewWorld(seed: number): Promise<void> {
+    this.state.transition("loading");
+    await this.loadWorld(seed);
+    this.state.transition("playing");
+  }
+
+  /**
+   * 读取存档槽位，用存档的种子重建世界后恢复存档；槽位为空时返回 false
+   */
+  async continueGame(slot: string): Promise<boolean> {
+    const snapshot = await this.saves.read(slot);
+    if (!snapshot) return false;
+
+    this.state.transition("loading");
+    // 读档后的世界无法只凭种子复现，不录制回放
+    await this.loadWorld(snapshot.world.seed, false);
+    this.saves.restore(snapshot);
+    this.eventBus.emit("save:loaded", { slot });
+    this.state.transition("playing");
+    return true;
+  }
+
+  /**
+   * 暂停：停止 ticker 并冻结所有系统，输入切换到菜单上下文
+   */
+  pause(): void {
+    if (!this.state.is("playing")) return;
+    this.state.transition("paused");
+    this.rendering?.getApplication().ticker.stop();
+    this.inputManager.pushContext("menu");
+  }
+
+  resume(): void {
+    if (!this.state.is("paused")) return;
+    this.inputManager.popContext("menu");
+    this.rendering?.getApplication().ticker.start();
+    this.state.transition("playing");
+  }
+
+  gameOver(reason: string): void {
+    if (!this.state.is("playing")) return;
+    this.eventBus.emit("game:over", { reason });
+    this.state.transition("gameover");
+  }
+
+  /**
+   * 离开当前世界回到主菜单
+   */
+  quitToMenu(): void {
+    if (this.state.is("paused")) {
+      this.inputManager.popContext("menu");
+      this.rendering?.getApplication().ticker.start();
+    }
+    this.state.transition("menu");
+    this.entities.clear();
+  }
+
+  getState(): GameState {
+    return this.state.getState();
+  }
+
+  getStateMachine(): GameStateMachine {
+    return this.state;
+  }
+
+  getConfig(): GameConfig {
+    return this.config;
+  }
+
+  getSeed(): number {
+    return this.random.getSeed();
   }
 
+  /**
+   * 启动主循环。无头模式下不挂载 ticker，需通过 getClock() 手动推进
+   */
   start(): void {
     if (this.started) return;
-    const app = this.rendering.getApplication();
-    app.ticker.add((ticker) => {
-      this.systemManager.updateAll(ticker.deltaMS);
-    });
-    this.rendering.getCamera().follow(this.player.getSprite());
+    if (this.rendering) {
+      const app = this.rendering.getApplication();
+      app.ticker.add((ticker) => {
+        this.runFrame(ticker.deltaMS);
+      });
+    }
     this.started = true;
   }
 
   stop(): void {
     if (!this.started) return;
-    this.rendering.getApplication().ticker.stop();
+    this.rendering?.getApplication().ticker.stop();
     this.systemManager.destroyAll();
     this.collisions.destroy();
     this.inputManager.destroy();
+    this.plugins.unloadAll();
     this.started = false;
   }
 
@@ -132,10 +382,132 @@ export class GameEngine {
     return this.entities;
   }
 
-  getUIManager(): UIManager {
+  getUIManager(): UIManager | null {
     return this.ui;
   }
 
+  getRenderingSystem(): RenderingSystem | null {
+    return this.rendering;
+  }
+
+  getInputManager(): InputManager {
+    return this.inputManager;
+  }
+
+  getSystemManager(): SystemManager {
+    return this.systemManager;
+  }
+
+  getClock(): ManualClock {
+    return this.clock;
+  }
+
+  isHeadless(): boolean {
+    return this.rendering === null;
+  }
+
+  isRecording(): boolean {
+    return this.recorder?.isRecording() ?? false;
+  }
+
+  /**
+   * 结束录制并返回回放文件；未开启录制时返回 null
+   */
+  stopRecording(): ReplayFile | null {
+    if (!this.recorder) return null;
+    const replay = this.recorder.stop();
+    this.recorder = null;
+    return replay;
+  }
+
+  getReplayPlayer(): ReplayPlayer | null {
+    return this.replayPlayer;
+  }
+
+  private runFrame(delta: number): void {
+    // 只有 playing 状态推进系统，菜单、暂停与游戏结束时世界保持冻结
+    if (!this.state.is("playing")) {
+      this.lastFrameAt = null;
+      return;
+    }
+
+    const frameStart = performance.now();
+    // 帧间隔取实际时间；无头模式下由 ManualClock 推进，直接使用 delta
+    const interval = this.rendering && this.lastFrameAt !== null ? frameStart - this.lastFrameAt : delta;
+    this.lastFrameAt = frameStart;
+
+    // 滚轮与双指缩放只影响相机，不参与录制
+    const zoom = this.inputManager.consumeZoom();
+    if (zoom !== 1) {
+      this.rendering?.getCamera().zoomBy(zoom);
+    }
+
+    if (this.replayPlayer) {
+      const replayDelta = this.replayPlayer.beginFrame();
+      if (replayDelta === null) return;
+      this.systemManager.updateAll(replayDelta);
+      this.replayPlayer.endFrame();
+      this.profiler.recordFrame(interval, performance.now() - frameStart);
+      return;
+    }
+
+    this.inputManager.poll();
+    this.recorder?.captureFrame(delta);
+    this.systemManager.updateAll(delta);
+    this.profiler.recordFrame(interval, performance.now() - frameStart);
+  }
+
+  /**
+   * 开发者控制台的命令注册表，其他系统可在此注册自己的调试命令
+   */
+  getCommands(): CommandRegistry {
+    return this.commands;
+  }
+
+  getPluginManager(): PluginManager {
+    return this.plugins;
+  }
+
+  getProfiler(): PerformanceProfiler {
+    return this.profiler;
+  }
+
+  getPathfinder(): Pathfinder {
+    return this.pathfinder;
+  }
+
+  getSpawnSystem(): SpawnSystem {
+    return this.spawner;
+  }
+
+  getCombatSystem(): CombatSystem {
+    return this.combat;
+  }
+
+  getProjectileSystem(): ProjectileSystem {
+    return this.projectiles;
+  }
+
+  getNPCActionSystem(): NPCActionSystem {
+    return this.npcActions;
+  }
+
+  getRelationshipSystem(): RelationshipSystem {
+    return this.relationships;
+  }
+
+  getScheduleSystem(): ScheduleSystem {
+    return this.schedules;
+  }
+
+  getAnimationSystem(): AnimationSystem {
+    return this.animations;
+  }
+
+  getVitalsSystem(): VitalsSystem {
+    return this.vitals;
+  }
+
   getAIManager(): AIManager {
     return this.ai;
   }
@@ -144,13 +516,80 @@ export class GameEngine {
     return this.world;
   }
 
+  getInventory(): Inventory {
+    return this.inventory;
+  }
+
+  getSaveManager(): SaveManager {
+    return this.saves;
+  }
+
+  private reportProgress(phase: LoadingPhase, progress: number): void {
+    this.eventBus.emit("game:loading-progress", { phase, progress });
+  }
+
+  /**
+   * 丢弃当前世界（如有），按种子重新生成地图并创建玩家与默认实体。
+   * 旧世界的录制随之结束，record 为 false 时新世界不录制
+   */
+  private async loadWorld(seed: number, record = true): Promise<void> {
+    this.recorder?.stop();
+    this.recorder = null;
+    this.entities.clear();
+    this.projectiles.clear();
+    this.physics.reset();
+    if (seed !== this.random.getSeed() || this.world.isMapLoaded()) {
+      this.random = new RandomStreams(seed);
+      this.world.reset(seed, this.random);
+      this.ai.reset(this.random);
+      this.combat.reset(this.random);
+      this.enemyAI.reset(this.random);
+      this.npcActions.reset(this.random);
+      this.schedules.reset();
+      this.relationships.reset();
+      this.spawner.reset(this.random);
+    }
+
+    // 预加载地图并渲染
+    console.log('[GameEngine] 开始预加载地图并渲染...');
+    this.reportProgress("world", 0);
+    await this.world.preloadMapAndRender(
+      this.rendering?.getTerrainRenderer(),
+      (progress) => this.reportProgress("world", progress),
+    );
+    console.log('[GameEngine] 地图预加载和渲染完成');
+
+    await this.bootstrapWorld();
+    this.plugins.notifyWorldReady();
+
+    if (record && this.options.recordInput && !this.replayPlayer) {
+      this.recorder = new InputRecorder(this.inputManager, this.physics, this.entities, this.eventBus, seed);
+      this.recorder.start();
+    }
+  }
+
+  private async loadPlugins(): Promise<void> {
+    if (this.options.pluginManifest) {
+      await this.plugins.loadManifest(this.options.pluginManifest);
+    }
+    for (const plugin of this.options.plugins ?? []) {
+      try {
+        await this.plugins.install(plugin);
+      } catch (error) {
+        console.error(`[GameEngine] 加载插件 ${plugin.id} 失败`, error);
+      }
+    }
+  }
+
   private async bootstrapWorld(): Promise<void> {
     console.log(`[GameEngine] 开始创建游戏世界`);
     console.log(`[GameEngine] 准备创建玩家实体`);
     
     try {
       console.log(`[GameEngine] 调用 new Player() 构造函数`);
-      this.player = new Player(400, 400, this.inputManager);
+      this.player = new Player(400, 400, this.playerInput, this.pathfinder);
+      // 玩家背包由引擎持有并随存档保存，这里以组件形式挂到玩家身上
+      this.player.addComponent("inventory", { inventory: this.inventory });
       console.log(`[GameEngine] Player 构造函数完成，player 对象:`, this.player);
       console.log(`[GameEngine] 玩家创建完成，添加到实体管理器`);
       
@@ -174,9 +613,11 @@ export class GameEngine {
     this.world.focusPosition(this.player.getBody().position);
     console.log(`[GameEngine] 世界焦点位置设置完成`);
     
-    console.log(`[GameEngine] 设置相机跟随`);
-    this.rendering.getCamera().follow(this.player.getSprite());
-    console.log(`[GameEngine] 相机跟随设置完成`);
+    if (this.rendering) {
+      console.log(`[GameEngine] 设置相机跟随`);
+      this.rendering.getCamera().follow(this.player.getSprite());
+      console.log(`[GameEngine] 相机跟随设置完成`);
+    }
     
     console.log(`[GameEngine] 游戏世界创建完成`);
   }
@@ -0,0 +1,63 @@
+import type { Body } from "matter-js";
+import type { Relationship } from "@/ai/RelationshipSystem";
+import type { BaseEntity } from "@/entities/BaseEntity";
+import type { HealthComponent, MonsterState, NPCActionStatus, VitalsComponent } from "@/entities/Components";
+import type { NPCBehaviorDecision, Vector2 } from "@/types";
+import type { InventoryItem } from "@/ui/Inventory";
+import type { WorldState } from "@/world/WorldManager";
+import type { GameState, LoadingPhase } from "./GameStateMachine";
+
+/**
+ * 全局事件表：事件名到负载类型的映射。无负载的事件使用 void。
+ * 新增事件时在此声明，插件可以通过声明合并扩展
+ */
+export interface GameEvents {
+  "entity:added": { entity: BaseEntity };
+  "entity:removed": { entityId: string };
+  "world:state": WorldState;
+  "world:new-day": { day: number };
+  "npc:behavior": { npc: BaseEntity; decision: NPCBehaviorDecision };
+  /** 行为决策的执行进度；failed 时 reason 说明原因 */
+  "npc:action": { npc: BaseEntity; decision: NPCBehaviorDecision; status: NPCActionStatus; reason?: string };
+  "enemy:state": { entity: BaseEntity; state: MonsterState; previous: MonsterState };
+  "collision:start": { a: Body; b: Body };
+  "collision:end": { a: Body; b: Body };
+  "save:written": { slot: string };
+  "save:loaded": { slot: string };
+  "replay:finished": { frames: number };
+  "game:state-enter": { state: GameState; previous: GameState | null };
+  "game:state-exit": { state: GameState; next: GameState };
+  /** progress 为当前阶段的完成比例 0-1 */
+  "game:loading-progress": { phase: LoadingPhase; progress: number };
+  "game:over": { reason: string };
+  /** direction 已归一化；hits 为扇形内命中的实体 */
+  "combat:attack": { attacker: BaseEntity; direction: Vector2; hits: BaseEntity[] };
+  "combat:damage": { target: BaseEntity; source: BaseEntity | null; amount: number; remaining: number };
+  "combat:death": { entity: BaseEntity; killer: BaseEntity | null };
+  /** 掉落物已放入击杀者的背包（如有） */
+  "combat:loot": { entity: BaseEntity; killer: BaseEntity | null; items: InventoryItem[] };
+  /** 定期广播的生命、体力、饥饿、口渴与成长状态 */
+  "vitals:changed": { entity: BaseEntity; vitals: VitalsComponent; health: HealthComponent };
+  "vitals:experience": { entity: BaseEntity; amount: number; experience: number; level: number };
+  "vitals:level-up": { entity: BaseEntity; level: number; attributePoints: number };
+  /** 饿死或渴死；战斗中的死亡见 combat:death */
+  "vitals:death": { entity: BaseEntity; cause: "hunger" | "thirst" };
+  /** direction 已归一化 */
+  "projectile:fired": { owner: BaseEntity; projectile: string; direction: Vector2 };
+  /** 弹道命中实体或撞到障碍物；target 为 null 表示撞到地形 */
+  "projectile:impact": { owner: BaseEntity | null; projectile: string; position: Vector2; target: BaseEntity | null };
+  /** 动画播放到数据中标记了事件的帧，如攻击动画的 hit 帧 */
+  "animation:frame": { entity: BaseEntity; clip: string; frame: number; event: string };
+  /** NPC 对玩家的好感或信任发生变化 */
+  "relationship:changed": { npc: BaseEntity; relationship: Relationship; reason: string };
+  /** 关系不足以进行该互动（如 talk、gift） */
+  "relationship:refused": { npc: BaseEntity; interaction: string };
+  /** hostile 为变化后该阵营是否见到玩家就攻击 */
+  "faction:changed": { faction: string; standing: number; previous: number; hostile: boolean; reason: string };
+  /**
+   * 供插件或日后的任务系统发出的扩展点，引擎本身目前不会发出；
+   * 省略 faction 时改变 npc 所属阵营的声望
+   */
+  "quest:completed": { questId: string; npc: BaseEntity | null; faction?: string };
+  "quest:failed": { questId: string; npc: BaseEntity | null; faction?: string };
+}
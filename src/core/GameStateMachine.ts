@@ -0,0 +1,94 @@
+import { EventBus } from "./EventBus";
+
+export type GameState = "loading" | "menu" | "playing" | "paused" | "gameover";
+
+export type LoadingPhase = "plugins" | "systems" | "assets" | "world";
+
+const TRANSITIONS: Record<GameState, GameState[]> = {
+  loading: ["menu", "playing"],
+  menu: ["loading"],
+  // 游戏中快速读档会直接重建世界
+  playing: ["paused", "gameover", "menu", "loading"],
+  paused: ["playing", "menu"],
+  gameover: ["menu", "loading"],
+};
+
+export type StateHook = (state: GameState, other: GameState | null) => void;
+
+/**
+ * 游戏流程状态机。每次切换先触发旧状态的 exit、再触发新状态的 enter，
+ * 同时通过 EventBus 广播 game:state-exit / game:state-enter，系统可按需订阅
+ */
+export class GameStateMachine {
+  private current: GameState = "loading";
+  private readonly enterHooks = new Map<GameState, StateHook[]>();
+  private readonly exitHooks = new Map<GameState, StateHook[]>();
+
+  constructor(private readonly eventBus: EventBus) {}
+
+  getState(): GameState {
+    return this.current;
+  }
+
+  is(state: GameState): boolean {
+    return this.current === state;
+  }
+
+  canTransition(next: GameState): boolean {
+    return TRANSITIONS[this.current].includes(next);
+  }
+
+  /**
+   * 触发初始状态（loading）的 enter，引擎开始加载时调用一次
+   */
+  begin(): void {
+    this.runHooks(this.enterHooks, this.current, null);
+    this.eventBus.emit("game:state-enter", { state: this.current, previous: null });
+  }
+
+  transition(next: GameState): void {
+    if (!this.canTransition(next)) {
+      throw new Error(`Invalid game state transition: ${this.current} -> ${next}`);
+    }
+
+    const previous = this.current;
+    this.runHooks(this.exitHooks, previous, next);
+    this.eventBus.emit("game:state-exit", { state: previous, next });
+
+    this.current = next;
+    console.log(`[GameStateMachine] ${previous} -> ${next}`);
+    this.runHooks(this.enterHooks, next, previous);
+    this.eventBus.emit("game:state-enter", { state: next, previous });
+  }
+
+  /**
+   * 注册进入某个状态时的回调，返回注销函数
+   */
+  onEnter(state: GameState, hook: StateHook): () => void {
+    return this.addHook(this.enterHooks, state, hook);
+  }
+
+  onExit(state: GameState, hook: StateHook): () => void {
+    return this.addHook(this.exitHooks, state, hook);
+  }
+
+  private addHook(hooks: Map<GameState, StateHook[]>, state: GameState, hook: StateHook): () => void {
+    const list = hooks.get(state) ?? [];
+    list.push(hook);
+    hooks.set(state, list);
+    return () => {
+      const index = list.indexOf(hook);
+      if (index >= 0) list.splice(index, 1);
+    };
+  }
+
+  private runHooks(hooks: Map<GameState, StateHook[]>, state: GameState, other: GameState | null): void {
+    for (const hook of hooks.get(state) ?? []) {
+      try {
+        hook(state, other);
+      } catch (error) {
+        console.error(`[GameStateMachine] 状态 ${state} 的回调出错`, error);
+      }
+    }
+  }
+}
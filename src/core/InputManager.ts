@@ -1,4 +1,21 @@
-export type KeyBinding = "up" | "down" | "left" | "right" | "action" | "jump" | "sprint" | "tab";
+import { Vector2 } from "@/types";
+
+export type KeyBinding = "up" | "down" | "left" | "right" | "action" | "attack" | "fire" | "jump" | "sprint" | "tab" | "cancel";
+
+/**
+ * 输入上下文按栈管理，只有栈顶上下文的动作回调会被触发，
+ * 持续性输入（移动、冲刺等）只在 gameplay 上下文下生效
+ */
+export type InputContext = "gameplay" | "dialogue" | "menu";
+
+export type ActionHandler = (action: KeyBinding) => void;
+
+/**
+ * 触屏点击回调，参数为画布坐标；返回 true 表示已处理，不再作为点击移动目标
+ */
+export type TapHandler = (point: Vector2) => boolean | void;
+
+export type RebindResult = { ok: true } | { ok: false; conflict: KeyBinding };
 
 export interface MouseState {
   x: number;
@@ -12,9 +29,37 @@ export interface MouseState {
 export interface InputState {
   keys: Map<KeyBinding, boolean>;
   mouse: MouseState;
+  /** 点击移动的目标点（世界坐标） */
   mouseTarget: { x: number; y: number } | null;
+  /** 光标所在的世界坐标，右键远程攻击朝这里瞄准；没有光标时为 null */
+  aim: Vector2 | null;
+  /** 归一化的移动输入，长度不超过 1；手柄摇杆提供模拟量 */
+  movement: Vector2;
+}
+
+/**
+ * 实体读取输入的抽象；InputManager 提供实时输入，回放时由 ScriptedInputSource 提供录制的输入
+ */
+export interface InputSource {
+  isActive(binding: KeyBinding): boolean;
+  getMouseState(): MouseState;
+  getMouseTarget(): { x: number; y: number } | null;
+  clearMouseTarget(): void;
+  getInputState(): InputState;
+  getMovementVector(): Vector2;
+  resetWheelDelta(): void;
 }
 
+/**
+ * 由按键状态计算数字方向输入
+ */
+export const digitalMovement = (isActive: (binding: KeyBinding) => boolean): Vector2 => {
+  const x = (isActive("right") ? 1 : 0) - (isActive("left") ? 1 : 0);
+  const y = (isActive("down") ? 1 : 0) - (isActive("up") ? 1 : 0);
+  const length = Math.hypot(x, y) || 1;
+  return { x: x / length, y: y / length };
+};
+
 const DEFAULT_BINDINGS: Record<string, KeyBinding> = {
   KeyW: "up",
   ArrowUp: "up",
@@ -25,15 +70,75 @@ const DEFAULT_BINDINGS: Record<string, KeyBinding> = {
   KeyD: "right",
   ArrowRight: "right",
   KeyE: "action",
+  KeyQ: "attack",
+  KeyF: "fire",
   Space: "jump",
   ShiftLeft: "sprint",
   ShiftRight: "sprint",
   Tab: "tab",
+  Escape: "cancel",
+};
+
+// 标准手柄布局：A/B/X/Y、LB/RB、Start 与方向键
+const DEFAULT_GAMEPAD_BINDINGS: Record<number, KeyBinding> = {
+  0: "action",
+  1: "cancel",
+  2: "jump",
+  3: "attack",
+  4: "sprint",
+  5: "sprint",
+  7: "fire",
+  9: "tab",
+  12: "up",
+  13: "down",
+  14: "left",
+  15: "right",
 };
 
-export class InputManager {
+const fillMissing = <Key extends string | number>(bindings: Record<Key, KeyBinding>, defaults: Record<Key, KeyBinding>): void => {
+  const bound = new Set(Object.values<KeyBinding>(bindings));
+  (Object.entries(defaults) as Array<[Key, KeyBinding]>).forEach(([key, action]) => {
+    if (!bound.has(action) && !bindings[key]) bindings[key] = action;
+  });
+};
+
+const STICK_DEADZONE = 0.25;
+// 触摸按下到抬起的移动距离与时长在此范围内视为点击
+const TAP_MAX_DISTANCE = 12;
+const TAP_MAX_DURATION = 300;
+// 触摸之后浏览器会补发兼容的鼠标事件，在该时间窗口内忽略
+const TOUCH_MOUSE_SUPPRESS_MS = 600;
+const BINDINGS_STORAGE_KEY = "ai-sandbox:input-bindings";
+
+interface StoredBindings {
+  keyboard: Record<string, KeyBinding>;
+  gamepad: Record<number, KeyBinding>;
+}
+
+interface ActionHandlerEntry {
+  action: KeyBinding;
+  context: InputContext;
+  handler: ActionHandler;
+}
+
+export class InputManager implements InputSource {
   private readonly activeBindings = new Map<KeyBinding, boolean>();
+  private readonly gamepadBindings = new Map<KeyBinding, boolean>();
   private readonly listeners: Array<() => void> = [];
+  private readonly actionHandlers: ActionHandlerEntry[] = [];
+  private readonly contexts: InputContext[] = ["gameplay"];
+  private bindings: Record<string, KeyBinding>;
+  private gamepadButtons: Record<number, KeyBinding> = { ...DEFAULT_GAMEPAD_BINDINGS };
+  private stick: Vector2 = { x: 0, y: 0 };
+  private readonly virtualBindings = new Map<KeyBinding, boolean>();
+  private virtualMovement: Vector2 = { x: 0, y: 0 };
+  private readonly tapHandlers: TapHandler[] = [];
+  private readonly touches = new Map<number, Vector2>();
+  private tapStart: { id: number; point: Vector2; time: number } | null = null;
+  private pinchDistance = 0;
+  private zoomFactor = 1;
+  private lastTouchTime = -Infinity;
+  private readonly persistBindings: boolean;
   private mouseState: MouseState = {
     x: 0,
     y: 0,
@@ -43,9 +148,19 @@ export class InputManager {
     wheelDelta: 0,
   };
   private mouseTarget: { x: number; y: number } | null = null;
+  private pointerToWorld: (screen: Vector2) => Vector2 = (screen) => ({ ...screen });
   private canvas: HTMLCanvasElement | null = null;
 
-  constructor(private readonly bindings: Record<string, KeyBinding> = DEFAULT_BINDINGS) {}
+  /**
+   * 未传入自定义绑定时使用默认绑定，并读取/保存 localStorage 中的玩家改键
+   */
+  constructor(bindings?: Record<string, KeyBinding>) {
+    this.bindings = { ...(bindings ?? DEFAULT_BINDINGS) };
+    this.persistBindings = !bindings;
+    if (this.persistBindings) {
+      this.loadBindings();
+    }
+  }
 
   initialize(canvas?: HTMLCanvasElement): void {
     if (typeof window === "undefined") return;
@@ -62,6 +177,9 @@ export class InputManager {
         if (binding === "tab") {
           event.preventDefault();
         }
+        if (!event.repeat) {
+          this.dispatchAction(binding);
+        }
       }
     };
 
@@ -75,6 +193,7 @@ export class InputManager {
     // 鼠标事件处理
     const mouseDownHandler = (event: MouseEvent) => {
       if (!this.canvas) return;
+      if (performance.now() - this.lastTouchTime < TOUCH_MOUSE_SUPPRESS_MS) return;
       
       const rect = this.canvas.getBoundingClientRect();
       this.mouseState.x = event.clientX - rect.left;
@@ -83,8 +202,8 @@ export class InputManager {
       switch (event.button) {
         case 0: // 左键
           this.mouseState.leftButton = true;
-          // 设置鼠标目标位置（世界坐标需要后续转换）
-          this.mouseTarget = { x: this.mouseState.x, y: this.mouseState.y };
+          // 点击时立即换算成世界坐标，之后相机移动也不会影响目标
+          this.mouseTarget = this.pointerToWorld({ x: this.mouseState.x, y: this.mouseState.y });
           break;
         case 1: // 中键
           this.mouseState.middleButton = true;
@@ -121,9 +240,55 @@ export class InputManager {
 
     const wheelHandler = (event: WheelEvent) => {
       this.mouseState.wheelDelta = event.deltaY;
+      this.zoomFactor *= Math.exp(-event.deltaY * 0.001);
       event.preventDefault();
     };
 
+    // 触摸事件处理：单指点击、双指缩放
+    const pointerDownHandler = (event: PointerEvent) => {
+      if (event.pointerType !== "touch") return;
+      const point = this.toCanvasPoint(event);
+      this.lastTouchTime = performance.now();
+      this.touches.set(event.pointerId, point);
+
+      if (this.touches.size === 1) {
+        this.tapStart = { id: event.pointerId, point, time: performance.now() };
+      } else {
+        this.tapStart = null;
+        this.pinchDistance = this.measurePinch();
+      }
+    };
+
+    const pointerMoveHandler = (event: PointerEvent) => {
+      if (event.pointerType !== "touch" || !this.touches.has(event.pointerId)) return;
+      this.touches.set(event.pointerId, this.toCanvasPoint(event));
+
+      if (this.touches.size >= 2 && this.pinchDistance > 0) {
+        const distance = this.measurePinch();
+        this.zoomFactor *= distance / this.pinchDistance;
+        this.pinchDistance = distance;
+      }
+    };
+
+    const pointerUpHandler = (event: PointerEvent) => {
+      if (event.pointerType !== "touch") return;
+      const point = this.toCanvasPoint(event);
+      this.lastTouchTime = performance.now();
+      this.touches.delete(event.pointerId);
+      if (this.touches.size < 2) {
+        this.pinchDistance = 0;
+      }
+
+      const start = this.tapStart;
+      if (!start || start.id !== event.pointerId || event.type === "pointercancel") return;
+      this.tapStart = null;
+
+      const moved = Math.hypot(point.x - start.point.x, point.y - start.point.y);
+      if (moved <= TAP_MAX_DISTANCE && performance.now() - start.time <= TAP_MAX_DURATION) {
+        this.handleTap(point);
+      }
+    };
+
     const contextMenuHandler = (event: Event) => {
       event.preventDefault(); // 阻止右键菜单
     };
@@ -138,6 +303,12 @@ export class InputManager {
       this.canvas.addEventListener("mousemove", mouseMoveHandler);
       this.canvas.addEventListener("wheel", wheelHandler);
       this.canvas.addEventListener("contextmenu", contextMenuHandler);
+      this.canvas.addEventListener("pointerdown", pointerDownHandler);
+      this.canvas.addEventListener("pointermove", pointerMoveHandler);
+      this.canvas.addEventListener("pointerup", pointerUpHandler);
+      this.canvas.addEventListener("pointercancel", pointerUpHandler);
+      // 由游戏接管触摸手势，禁止浏览器滚动和缩放页面
+      this.canvas.style.touchAction = "none";
     }
 
     // 保存清理函数
@@ -150,17 +321,204 @@ export class InputManager {
       this.listeners.push(() => this.canvas!.removeEventListener("mousemove", mouseMoveHandler));
       this.listeners.push(() => this.canvas!.removeEventListener("wheel", wheelHandler));
       this.listeners.push(() => this.canvas!.removeEventListener("contextmenu", contextMenuHandler));
+      this.listeners.push(() => this.canvas!.removeEventListener("pointerdown", pointerDownHandler));
+      this.listeners.push(() => this.canvas!.removeEventListener("pointermove", pointerMoveHandler));
+      this.listeners.push(() => this.canvas!.removeEventListener("pointerup", pointerUpHandler));
+      this.listeners.push(() => this.canvas!.removeEventListener("pointercancel", pointerUpHandler));
     }
   }
 
   isActive(binding: KeyBinding): boolean {
-    return this.activeBindings.get(binding) ?? false;
+    if (this.getActiveContext() !== "gameplay") return false;
+    return (
+      (this.activeBindings.get(binding) ?? false) ||
+      (this.gamepadBindings.get(binding) ?? false) ||
+      (this.virtualBindings.get(binding) ?? false)
+    );
+  }
+
+  getMovementVector(): Vector2 {
+    if (this.getActiveContext() !== "gameplay") return { x: 0, y: 0 };
+    if (this.stick.x !== 0 || this.stick.y !== 0) return { ...this.stick };
+    if (this.virtualMovement.x !== 0 || this.virtualMovement.y !== 0) return { ...this.virtualMovement };
+    return digitalMovement((binding) => this.isActive(binding));
+  }
+
+  /**
+   * 屏幕虚拟按键（如触屏冲刺按钮）设置的动作状态
+   */
+  setVirtualBinding(binding: KeyBinding, active: boolean): void {
+    const wasActive = this.virtualBindings.get(binding) ?? false;
+    this.virtualBindings.set(binding, active);
+    if (active && !wasActive) {
+      this.dispatchAction(binding);
+    }
+  }
+
+  /**
+   * 虚拟摇杆的模拟移动量，长度会被限制在 1 以内
+   */
+  setVirtualMovement(movement: Vector2): void {
+    const length = Math.hypot(movement.x, movement.y);
+    this.virtualMovement = length > 1 ? { x: movement.x / length, y: movement.y / length } : { ...movement };
+  }
+
+  onTap(handler: TapHandler): () => void {
+    this.tapHandlers.push(handler);
+    return () => {
+      const index = this.tapHandlers.indexOf(handler);
+      if (index !== -1) this.tapHandlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * 设置画布坐标到世界坐标的换算（通常为 CameraSystem.screenToWorld），
+   * 未设置时点击目标直接使用画布坐标
+   */
+  setPointerTransform(transform: (screen: Vector2) => Vector2): void {
+    this.pointerToWorld = transform;
+  }
+
+  /**
+   * 取出自上次调用以来累积的缩放倍率（滚轮与双指缩放），无缩放时为 1
+   */
+  consumeZoom(): number {
+    const factor = this.zoomFactor;
+    this.zoomFactor = 1;
+    return factor;
+  }
+
+  /**
+   * 每帧轮询手柄状态，把按钮和左摇杆映射到与键盘相同的动作上
+   */
+  poll(): void {
+    if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return;
+
+    const previous = new Map(this.gamepadBindings);
+    this.gamepadBindings.clear();
+    this.stick = { x: 0, y: 0 };
+
+    const pad = [...navigator.getGamepads()].find((gamepad): gamepad is Gamepad => Boolean(gamepad));
+    if (!pad) return;
+
+    pad.buttons.forEach((button, index) => {
+      const binding = this.gamepadButtons[index];
+      if (binding && button.pressed) {
+        this.gamepadBindings.set(binding, true);
+      }
+    });
+
+    const [axisX = 0, axisY = 0] = pad.axes;
+    const magnitude = Math.hypot(axisX, axisY);
+    if (magnitude > STICK_DEADZONE) {
+      // 去除死区后重新映射到 0-1
+      const scaled = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+      this.stick = { x: (axisX / magnitude) * scaled, y: (axisY / magnitude) * scaled };
+    }
+
+    for (const binding of this.gamepadBindings.keys()) {
+      if (!previous.get(binding)) {
+        this.dispatchAction(binding);
+      }
+    }
+  }
+
+  /**
+   * 注册动作回调，仅当 context 位于上下文栈顶时触发
+   */
+  onAction(action: KeyBinding, handler: ActionHandler, context: InputContext = "gameplay"): () => void {
+    const entry: ActionHandlerEntry = { action, context, handler };
+    this.actionHandlers.push(entry);
+    return () => {
+      const index = this.actionHandlers.indexOf(entry);
+      if (index !== -1) this.actionHandlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * 切换上下文时丢弃按住的键，避免打开或关闭对话的那次按键在新上下文里继续生效
+   */
+  pushContext(context: InputContext): void {
+    this.contexts.push(context);
+    this.activeBindings.clear();
+    this.mouseTarget = null;
+  }
+
+  /**
+   * 移除最近一次压入的指定上下文；gameplay 作为栈底始终保留
+   */
+  popContext(context: InputContext): void {
+    const index = this.contexts.lastIndexOf(context);
+    if (index > 0) {
+      this.contexts.splice(index, 1);
+      this.activeBindings.clear();
+    }
+  }
+
+  getActiveContext(): InputContext {
+    return this.contexts[this.contexts.length - 1];
+  }
+
+  /**
+   * 把键位 code 绑定到 action。若该键已绑定到其他动作，默认返回冲突而不修改，
+   * replace 为 true 时覆盖原有绑定
+   */
+  rebind(action: KeyBinding, code: string, replace = false): RebindResult {
+    const existing = this.bindings[code];
+    if (existing && existing !== action && !replace) {
+      return { ok: false, conflict: existing };
+    }
+    this.bindings[code] = action;
+    this.activeBindings.clear();
+    this.saveBindings();
+    return { ok: true };
+  }
+
+  rebindGamepadButton(action: KeyBinding, button: number, replace = false): RebindResult {
+    const existing = this.gamepadButtons[button];
+    if (existing && existing !== action && !replace) {
+      return { ok: false, conflict: existing };
+    }
+    this.gamepadButtons[button] = action;
+    this.saveBindings();
+    return { ok: true };
+  }
+
+  unbind(code: string): void {
+    delete this.bindings[code];
+    this.saveBindings();
+  }
+
+  getBindings(): Record<string, KeyBinding> {
+    return { ...this.bindings };
+  }
+
+  getGamepadBindings(): Record<number, KeyBinding> {
+    return { ...this.gamepadButtons };
+  }
+
+  getCodesFor(action: KeyBinding): string[] {
+    return Object.keys(this.bindings).filter((code) => this.bindings[code] === action);
+  }
+
+  resetBindings(): void {
+    this.bindings = { ...DEFAULT_BINDINGS };
+    this.gamepadButtons = { ...DEFAULT_GAMEPAD_BINDINGS };
+    this.activeBindings.clear();
+    this.saveBindings();
   }
 
   getMouseState(): MouseState {
     return { ...this.mouseState };
   }
 
+  /**
+   * 光标当前所在的世界坐标
+   */
+  getPointerWorldPosition(): Vector2 {
+    return this.pointerToWorld({ x: this.mouseState.x, y: this.mouseState.y });
+  }
+
   getMouseTarget(): { x: number; y: number } | null {
     return this.mouseTarget;
   }
@@ -170,10 +528,18 @@ export class InputManager {
   }
 
   getInputState(): InputState {
+    const keys = new Map<KeyBinding, boolean>();
+    if (this.getActiveContext() === "gameplay") {
+      this.activeBindings.forEach((active, binding) => keys.set(binding, active));
+      this.gamepadBindings.forEach((active, binding) => active && keys.set(binding, true));
+      this.virtualBindings.forEach((active, binding) => active && keys.set(binding, true));
+    }
     return {
-      keys: new Map(this.activeBindings),
+      keys,
       mouse: { ...this.mouseState },
       mouseTarget: this.mouseTarget,
+      aim: this.canvas ? this.getPointerWorldPosition() : null,
+      movement: this.getMovementVector(),
     };
   }
 
@@ -191,6 +557,66 @@ export class InputManager {
     this.listeners.forEach((fn) => fn());
     this.listeners.length = 0;
     this.activeBindings.clear();
+    this.gamepadBindings.clear();
+    this.virtualBindings.clear();
+    this.actionHandlers.length = 0;
+    this.tapHandlers.length = 0;
+    this.touches.clear();
     this.mouseTarget = null;
   }
+
+  private toCanvasPoint(event: PointerEvent): Vector2 {
+    const rect = this.canvas?.getBoundingClientRect();
+    return { x: event.clientX - (rect?.left ?? 0), y: event.clientY - (rect?.top ?? 0) };
+  }
+
+  private measurePinch(): number {
+    const [a, b] = [...this.touches.values()];
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+
+  private handleTap(point: Vector2): void {
+    if (this.getActiveContext() !== "gameplay") return;
+
+    const handled = this.tapHandlers.some((handler) => handler(point) === true);
+    if (!handled) {
+      // 与鼠标左键一致，点击位置作为移动目标
+      this.mouseTarget = this.pointerToWorld(point);
+    }
+  }
+
+  private dispatchAction(action: KeyBinding): void {
+    const context = this.getActiveContext();
+    this.actionHandlers
+      .filter((entry) => entry.action === action && entry.context === context)
+      .forEach((entry) => {
+        try {
+          entry.handler(action);
+        } catch (error) {
+          console.error(`[InputManager] 动作 ${action} 的回调出错`, error);
+        }
+      });
+  }
+
+  private loadBindings(): void {
+    if (typeof localStorage === "undefined") return;
+    try {
+      const raw = localStorage.getItem(BINDINGS_STORAGE_KEY);
+      if (!raw) return;
+      const stored = JSON.parse(raw) as Partial<StoredBindings>;
+      if (stored.keyboard) this.bindings = { ...stored.keyboard };
+      if (stored.gamepad) this.gamepadButtons = { ...stored.gamepad };
+      // 旧版本保存的绑定缺少后来新增的动作，补上未被占用的默认键位
+      fillMissing(this.bindings, DEFAULT_BINDINGS);
+      fillMissing(this.gamepadButtons, DEFAULT_GAMEPAD_BINDINGS);
+    } catch (error) {
+      console.warn("[InputManager] 读取按键绑定失败，使用默认绑定", error);
+    }
+  }
+
+  private saveBindings(): void {
+    if (!this.persistBindings || typeof localStorage === "undefined") return;
+    const stored: StoredBindings = { keyboard: this.bindings, gamepad: this.gamepadButtons };
+    localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(stored));
+  }
 }
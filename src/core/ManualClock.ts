@@ -0,0 +1,37 @@
+export type ClockTickHandler = (deltaMs: number) => void;
+
+/**
+ * 手动推进的时钟，用于无头模式替代 PixiJS ticker
+ */
+export class ManualClock {
+  private elapsedMs = 0;
+  private frames = 0;
+
+  constructor(private readonly onTick: ClockTickHandler) {}
+
+  step(deltaMs: number): void {
+    this.elapsedMs += deltaMs;
+    this.frames += 1;
+    this.onTick(deltaMs);
+  }
+
+  /**
+   * 以固定步长推进指定时长，末尾不足一步的部分作为最后一帧
+   */
+  advance(durationMs: number, stepMs = 1000 / 60): void {
+    let remaining = durationMs;
+    while (remaining > 0) {
+      const delta = Math.min(stepMs, remaining);
+      this.step(delta);
+      remaining -= delta;
+    }
+  }
+
+  getElapsed(): number {
+    return this.elapsedMs;
+  }
+
+  getFrameCount(): number {
+    return this.frames;
+  }
+}
@@ -0,0 +1,127 @@
+import { AIManager, AIStats } from "@/ai/AIManager";
+import { EntityManager } from "@/entities/EntityManager";
+import { PhysicsBodyStats, PhysicsEngine } from "@/physics/PhysicsEngine";
+import { DisplayObjectStats, RenderingSystem } from "@/rendering/RenderingSystem";
+import { EntityType } from "@/types";
+import { SystemManager, SystemStats } from "./SystemManager";
+
+/** 帧时间图与统计使用的帧数 */
+export const FRAME_HISTORY = 240;
+
+export interface FrameSample {
+  /** 与上一帧的间隔（毫秒） */
+  interval: number;
+  /** 本帧系统更新耗时（毫秒） */
+  work: number;
+}
+
+export interface FrameStats {
+  fps: number;
+  averageInterval: number;
+  maxInterval: number;
+  averageWork: number;
+  maxWork: number;
+  samples: number;
+}
+
+export interface PerformanceProfile {
+  capturedAt: number;
+  seed: number;
+  frames: FrameStats;
+  /** 从旧到新的最近帧 */
+  frameHistory: FrameSample[];
+  systems: SystemStats[];
+  physics: PhysicsBodyStats;
+  /** 无头模式下为 null */
+  display: DisplayObjectStats | null;
+  entities: Partial<Record<EntityType, number>>;
+  ai: AIStats;
+}
+
+export interface ProfilerSources {
+  systems: SystemManager;
+  physics: PhysicsEngine;
+  rendering: RenderingSystem | null;
+  entities: EntityManager;
+  ai: AIManager;
+  getSeed(): number;
+}
+
+/**
+ * 记录每帧耗时，并从各系统汇总性能快照
+ */
+export class PerformanceProfiler {
+  private readonly intervals = new Float64Array(FRAME_HISTORY);
+  private readonly work = new Float64Array(FRAME_HISTORY);
+  private index = 0;
+  private count = 0;
+
+  constructor(private readonly sources: ProfilerSources) {}
+
+  recordFrame(interval: number, work: number): void {
+    this.intervals[this.index] = interval;
+    this.work[this.index] = work;
+    this.index = (this.index + 1) % FRAME_HISTORY;
+    this.count = Math.min(this.count + 1, FRAME_HISTORY);
+  }
+
+  /**
+   * 按时间顺序返回最近的帧
+   */
+  getFrameHistory(): FrameSample[] {
+    const start = (this.index - this.count + FRAME_HISTORY) % FRAME_HISTORY;
+    const samples: FrameSample[] = [];
+    for (let i = 0; i < this.count; i += 1) {
+      const slot = (start + i) % FRAME_HISTORY;
+      samples.push({ interval: this.intervals[slot], work: this.work[slot] });
+    }
+    return samples;
+  }
+
+  getFrameStats(): FrameStats {
+    if (this.count === 0) {
+      return { fps: 0, averageInterval: 0, maxInterval: 0, averageWork: 0, maxWork: 0, samples: 0 };
+    }
+
+    let intervalTotal = 0;
+    let workTotal = 0;
+    let maxInterval = 0;
+    let maxWork = 0;
+    for (let i = 0; i < this.count; i += 1) {
+      intervalTotal += this.intervals[i];
+      workTotal += this.work[i];
+      maxInterval = Math.max(maxInterval, this.intervals[i]);
+      maxWork = Math.max(maxWork, this.work[i]);
+    }
+
+    const averageInterval = intervalTotal / this.count;
+    return {
+      fps: averageInterval > 0 ? 1000 / averageInterval : 0,
+      averageInterval,
+      maxInterval,
+      averageWork: workTotal / this.count,
+      maxWork,
+      samples: this.count,
+    };
+  }
+
+  reset(): void {
+    this.index = 0;
+    this.count = 0;
+  }
+
+  capture(): PerformanceProfile {
+    const { systems, physics, rendering, entities, ai } = this.sources;
+    return {
+      capturedAt: Date.now(),
+      seed: this.sources.getSeed(),
+      frames: this.getFrameStats(),
+      frameHistory: this.getFrameHistory(),
+      systems: systems.getStats(),
+      physics: physics.getBodyStats(),
+      display: rendering ? rendering.countDisplayObjects() : null,
+      entities: entities.countByType(),
+      ai: ai.getStats(),
+    };
+  }
+}
@@ -1,28 +1,110 @@
 ﻿export interface GameSystem {
   name: string;
   priority: number;
+  /** 必须先于本系统初始化和更新的系统名称 */
+  dependsOn?: string[];
   initialize(): Promise<void> | void;
   update(delta: number): void;
   postUpdate?(delta: number): void;
   destroy?(): void;
 }
 
+export interface TimingStats {
+  last: number;
+  average: number;
+  max: number;
+  samples: number;
+}
+
+export interface SystemStats {
+  name: string;
+  enabled: boolean;
+  update: TimingStats;
+  postUpdate: TimingStats;
+}
+
+const TIMING_WINDOW = 120;
+
+class RollingTimer {
+  private readonly samples = new Float64Array(TIMING_WINDOW);
+  private index = 0;
+  private count = 0;
+  private total = 0;
+
+  record(ms: number): void {
+    if (this.count === TIMING_WINDOW) {
+      this.total -= this.samples[this.index];
+    } else {
+      this.count += 1;
+    }
+    this.samples[this.index] = ms;
+    this.total += ms;
+    this.index = (this.index + 1) % TIMING_WINDOW;
+  }
+
+  snapshot(): TimingStats {
+    if (this.count === 0) {
+      return { last: 0, average: 0, max: 0, samples: 0 };
+    }
+    let max = 0;
+    for (let i = 0; i < this.count; i += 1) {
+      max = Math.max(max, this.samples[i]);
+    }
+    return {
+      last: this.samples[(this.index - 1 + TIMING_WINDOW) % TIMING_WINDOW],
+      average: this.total / this.count,
+      max,
+      samples: this.count,
+    };
+  }
+}
+
+interface SystemEntry {
+  system: GameSystem;
+  enabled: boolean;
+  updateTimer: RollingTimer;
+  postUpdateTimer: RollingTimer;
+}
+
 export class SystemManager {
-  private systems: GameSystem[] = [];
+  private entries: SystemEntry[] = [];
+  private ordered: SystemEntry[] = [];
+  private orderDirty = false;
   private initialized = false;
 
   register(system: GameSystem): void {
-    if (this.systems.find((s) => s.name === system.name)) {
+    if (this.entries.find((entry) => entry.system.name === system.name)) {
       throw new Error(`System with name ${system.name} already registered`);
     }
 
-    this.systems.push(system);
-    this.systems.sort((a, b) => b.priority - a.priority);
+    this.entries.push({
+      system,
+      enabled: true,
+      updateTimer: new RollingTimer(),
+      postUpdateTimer: new RollingTimer(),
+    });
+    this.orderDirty = true;
+  }
+
+  /**
+   * 移除系统并调用其 destroy；依赖它的系统需要先移除
+   */
+  unregister(name: string): void {
+    const entry = this.findEntry(name);
+    if (!entry) return;
+
+    this.entries = this.entries.filter((other) => other !== entry);
+    this.orderDirty = true;
+    try {
+      entry.system.destroy?.();
+    } catch (error) {
+      console.error(`[SystemManager] Failed to destroy system ${name}`, error);
+    }
   }
 
   async initializeAll(): Promise<void> {
-    for (const system of this.systems) {
-      await system.initialize();
+    for (const entry of this.getOrdered()) {
+      await entry.system.initialize();
     }
     this.initialized = true;
   }
@@ -30,24 +112,150 @@ export class SystemManager {
   updateAll(delta: number): void {
     if (!this.initialized) return;
 
-    for (const system of this.systems) {
-      system.update(delta);
+    const ordered = this.getOrdered();
+
+    for (const entry of ordered) {
+      if (!entry.enabled) continue;
+      const start = performance.now();
+      entry.system.update(delta);
+      entry.updateTimer.record(performance.now() - start);
     }
 
-    for (const system of this.systems) {
-      system.postUpdate?.(delta);
+    for (const entry of ordered) {
+      if (!entry.enabled || !entry.system.postUpdate) continue;
+      const start = performance.now();
+      entry.system.postUpdate(delta);
+      entry.postUpdateTimer.record(performance.now() - start);
     }
   }
 
+  /**
+   * 运行时启用或停用单个系统；停用的系统跳过 update 与 postUpdate
+   */
+  setEnabled(name: string, enabled: boolean): void {
+    const entry = this.findEntry(name);
+    if (!entry) {
+      throw new Error(`System ${name} is not registered`);
+    }
+    entry.enabled = enabled;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.findEntry(name)?.enabled ?? false;
+  }
+
+  getSystem<T extends GameSystem = GameSystem>(name: string): T | undefined {
+    return this.findEntry(name)?.system as T | undefined;
+  }
+
+  /**
+   * 按执行顺序返回系统名称
+   */
+  getExecutionOrder(): string[] {
+    return this.getOrdered().map((entry) => entry.system.name);
+  }
+
+  getStats(): SystemStats[] {
+    return this.getOrdered().map((entry) => this.describe(entry));
+  }
+
+  getSystemStats(name: string): SystemStats | undefined {
+    const entry = this.findEntry(name);
+    return entry ? this.describe(entry) : undefined;
+  }
+
   destroyAll(): void {
-    for (const system of this.systems) {
+    for (const entry of [...this.getOrdered()].reverse()) {
       try {
-        system.destroy?.();
+        entry.system.destroy?.();
       } catch (error) {
-        console.error(`[SystemManager] Failed to destroy system ${system.name}`, error);
+        console.error(`[SystemManager] Failed to destroy system ${entry.system.name}`, error);
       }
     }
-    this.systems = [];
+    this.entries = [];
+    this.ordered = [];
     this.initialized = false;
   }
+
+  private findEntry(name: string): SystemEntry | undefined {
+    return this.entries.find((entry) => entry.system.name === name);
+  }
+
+  private describe(entry: SystemEntry): SystemStats {
+    return {
+      name: entry.system.name,
+      enabled: entry.enabled,
+      update: entry.updateTimer.snapshot(),
+      postUpdate: entry.postUpdateTimer.snapshot(),
+    };
+  }
+
+  private getOrdered(): SystemEntry[] {
+    if (this.orderDirty) {
+      this.ordered = this.resolveOrder();
+      this.orderDirty = false;
+    }
+    return this.ordered;
+  }
+
+  /**
+   * 按 dependsOn 拓扑排序；没有依赖关系的系统之间按 priority 从高到低排列
+   */
+  private resolveOrder(): SystemEntry[] {
+    const byName = new Map(this.entries.map((entry) => [entry.system.name, entry]));
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const entry of this.entries) {
+      const { name, dependsOn = [] } = entry.system;
+      inDegree.set(name, dependsOn.length);
+      for (const dependency of dependsOn) {
+        if (!byName.has(dependency)) {
+          throw new Error(`System ${name} depends on unregistered system ${dependency}`);
+        }
+        dependents.set(dependency, [...(dependents.get(dependency) ?? []), name]);
+      }
+    }
+
+    const byPriority = (a: SystemEntry, b: SystemEntry) => b.system.priority - a.system.priority;
+    const ready = this.entries.filter((entry) => inDegree.get(entry.system.name) === 0);
+    const ordered: SystemEntry[] = [];
+
+    while (ready.length > 0) {
+      ready.sort(byPriority);
+      const entry = ready.shift()!;
+      ordered.push(entry);
+
+      for (const dependent of dependents.get(entry.system.name) ?? []) {
+        const remaining = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          ready.push(byName.get(dependent)!);
+        }
+      }
+    }
+
+    if (ordered.length !== this.entries.length) {
+      const blocked = this.entries.filter((entry) => !ordered.includes(entry)).map((entry) => entry.system);
+      throw new Error(`System dependency cycle detected: ${this.describeCycle(blocked)}`);
+    }
+
+    return ordered;
+  }
+
+  private describeCycle(blocked: GameSystem[]): string {
+    const blockedNames = new Set(blocked.map((system) => system.name));
+    const byName = new Map(blocked.map((system) => [system.name, system]));
+    const path: string[] = [];
+    let current: string | undefined = blocked[0].name;
+
+    // 沿着仍未满足的依赖前进，直到回到路径上的某个系统
+    while (current && !path.includes(current)) {
+      path.push(current);
+      current = byName.get(current)?.dependsOn?.find((dependency) => blockedNames.has(dependency));
+    }
+
+    if (!current) return path.join(", ");
+    return [...path.slice(path.indexOf(current)), current].join(" -> ");
+  }
 }
@@ -1,9 +1,25 @@
 import { Body } from "matter-js";
 import { Container } from "pixi.js";
 import { EntityType, Vector2 } from "@/types";
+import { ComponentMap, ComponentName, PERSISTED_COMPONENTS, PersistedComponents } from "./Components";
 
 let entityIdCounter = 0;
 
+export type EntitySnapshotData = Record<string, unknown>;
+
+export interface EntitySnapshot {
+  id: string;
+  type: EntityType;
+  position: Vector2;
+  velocity: Vector2;
+  data?: EntitySnapshotData;
+  components?: PersistedComponents;
+}
+
+/**
+ * 实体由组件组合而成；Player、NPC、Enemy 等子类是预先配好组件的原型，
+ * 系统按组件查询实体，而不是按类判断
+ */
 export abstract class BaseEntity {
   public readonly id: string;
   public abstract readonly type: EntityType;
@@ -13,19 +29,64 @@ export abstract class BaseEntity {
 
   protected position: Vector2;
 
+  private readonly components = new Map<ComponentName, ComponentMap[ComponentName]>();
+
   constructor(x: number, y: number) {
     this.id = `entity_${entityIdCounter += 1}`;
     this.position = { x, y };
-    
+
     // 设置实体的 zIndex，确保在地形之上显示
     this.sprite.zIndex = 10; // 地形的 zIndex 是 -1，所以实体应该是正数
+    this.addComponent("renderable", { view: this.sprite, mounted: false });
     console.log(`[BaseEntity] 创建实体 ${this.id}，zIndex: ${this.sprite.zIndex}`);
   }
 
   abstract createPhysicsBody(): Body;
 
+  /**
+   * 构建实体的图形内容。仅在实体被挂载到渲染舞台时调用，
+   * 无头模式下实体只保留一个空容器
+   */
+  protected abstract createView(): void;
+
   abstract update(delta: number): void;
 
+  /**
+   * 日志、调试命令与对话中显示的名字
+   */
+  getDisplayName(): string {
+    return this.id;
+  }
+
+  addComponent<K extends ComponentName>(name: K, component: ComponentMap[K]): ComponentMap[K] {
+    this.components.set(name, component);
+    return component;
+  }
+
+  getComponent<K extends ComponentName>(name: K): ComponentMap[K] | undefined {
+    return this.components.get(name) as ComponentMap[K] | undefined;
+  }
+
+  requireComponent<K extends ComponentName>(name: K): ComponentMap[K] {
+    const component = this.getComponent(name);
+    if (!component) {
+      throw new Error(`Entity ${this.id} has no ${name} component`);
+    }
+    return component;
+  }
+
+  hasComponents(...names: ComponentName[]): boolean {
+    return names.every((name) => this.components.has(name));
+  }
+
+  removeComponent(name: ComponentName): void {
+    this.components.delete(name);
+  }
+
+  listComponents(): ComponentName[] {
+    return [...this.components.keys()];
+  }
+
   protected syncGraphics(): void {
     this.sprite.position.set(this.body.position.x, this.body.position.y);
   }
@@ -34,11 +95,70 @@ export abstract class BaseEntity {
     return this.sprite;
   }
 
+  mountView(): Container {
+    const renderable = this.requireComponent("renderable");
+    if (!renderable.mounted) {
+      this.createView();
+      renderable.mounted = true;
+    }
+    return renderable.view;
+  }
+
   getBody(): Body {
     return this.body;
   }
 
   setBody(body: Body): void {
     this.body = body;
+    this.addComponent("physicsBody", { body });
+  }
+
+  serialize(): EntitySnapshot {
+    const { position, velocity } = this.body;
+    return {
+      id: this.id,
+      type: this.type,
+      position: { x: position.x, y: position.y },
+      velocity: { x: velocity.x, y: velocity.y },
+      data: this.serializeData(),
+      components: this.serializeComponents(),
+    };
+  }
+
+  restore(snapshot: EntitySnapshot): void {
+    Body.setPosition(this.body, snapshot.position);
+    Body.setVelocity(this.body, snapshot.velocity);
+    if (snapshot.data) {
+      this.restoreData(snapshot.data);
+    }
+    for (const name of PERSISTED_COMPONENTS) {
+      const saved = snapshot.components?.[name];
+      const component = this.getComponent(name);
+      if (saved && component) {
+        Object.assign(component, saved);
+      }
+    }
+    this.syncGraphics();
+  }
+
+  /**
+   * 子类需要持久化的额外字段
+   */
+  protected serializeData(): EntitySnapshotData | undefined {
+    return undefined;
+  }
+
+  protected restoreData(_data: EntitySnapshotData): void {}
+
+  private serializeComponents(): PersistedComponents | undefined {
+    const components: PersistedComponents = {};
+    let empty = true;
+    for (const name of PERSISTED_COMPONENTS) {
+      const component = this.getComponent(name);
+      if (!component) continue;
+      Object.assign(components, { [name]: { ...component } });
+      empty = false;
+    }
+    return empty ? undefined : components;
   }
 }
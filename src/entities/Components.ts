@@ -0,0 +1,222 @@
+import type { Body } from "matter-js";
+import type { Container } from "pixi.js";
+import type { MonsterProfile } from "@/ai/MonsterProfiles";
+import type { NPCArchetype } from "@/ai/NPCArchetypes";
+import type { AnimationDirection } from "@/rendering/AnimationSets";
+import type { DialogueResponse, NPCBehaviorDecision, Vector2 } from "@/types";
+import type { Inventory, InventoryItem } from "@/ui/Inventory";
+import type { BaseEntity } from "./BaseEntity";
+
+export type DialogueProvider = (entity: BaseEntity) => Promise<DialogueResponse>;
+export type BehaviorProvider = (entity: BaseEntity) => Promise<NPCBehaviorDecision>;
+
+export interface HealthComponent {
+  current: number;
+  max: number;
+  /** 受击后剩余的无敌时间（毫秒） */
+  invulnerableTime?: number;
+  /** 受击硬直剩余时间（毫秒），期间实体不主动移动，让击退生效 */
+  staggerTime?: number;
+}
+
+/**
+ * 近战攻击参数。实体把攻击方向写入 pendingAttack，由 CombatSystem 在本帧结算
+ */
+export interface CombatComponent {
+  damage: number;
+  /** 攻击距离（像素） */
+  range: number;
+  /** 攻击扇形的张角（弧度） */
+  arc: number;
+  /** 击退冲量，按目标质量换算为速度变化 */
+  knockback: number;
+  /** 两次攻击的间隔（毫秒） */
+  cooldown: number;
+  cooldownRemaining: number;
+  pendingAttack: Vector2 | null;
+  /** 每次攻击消耗的体力，实体没有 vitals 组件时忽略 */
+  staminaCost?: number;
+  /** 属性带来的额外伤害，由 VitalsSystem 按力量计算 */
+  bonusDamage?: number;
+}
+
+/**
+ * 远程武器：发射的弹道类型见 ProjectileSystem。pendingShot 为待发射的方向，由 ProjectileSystem 结算
+ */
+export interface RangedComponent {
+  projectile: string;
+  /** 两次发射的间隔（毫秒） */
+  cooldown: number;
+  cooldownRemaining: number;
+  pendingShot: Vector2 | null;
+  /** 每次发射消耗的体力，实体没有 vitals 组件时忽略 */
+  staminaCost?: number;
+}
+
+export interface LootEntry {
+  item: Omit<InventoryItem, "quantity">;
+  /** 掉落概率 0-1 */
+  chance: number;
+  min: number;
+  max: number;
+}
+
+export interface LootComponent {
+  table: LootEntry[];
+}
+
+export interface FactionComponent {
+  /** 阵营ID，如 player、village、wildlife */
+  id: string;
+}
+
+export type AttributeName = "strength" | "endurance" | "vitality";
+
+/**
+ * 玩家的生存与成长数据，由 VitalsSystem 推进。饥饿与口渴为 0-100，越高越难受
+ */
+export interface VitalsComponent {
+  stamina: number;
+  /** 由耐力属性推算 */
+  maxStamina: number;
+  hunger: number;
+  thirst: number;
+  level: number;
+  /** 当前等级内已获得的经验 */
+  experience: number;
+  /** 尚未分配的属性点 */
+  attributePoints: number;
+  attributes: Record<AttributeName, number>;
+  /** 本帧是否在冲刺，由实体写入 */
+  sprinting: boolean;
+  /** 体力耗尽后需要恢复到一定值才能再次冲刺 */
+  exhausted: boolean;
+  /** 距上次消耗体力的时间（毫秒） */
+  restTime: number;
+  /** 距上次受伤的时间（毫秒） */
+  calmTime: number;
+}
+
+export interface InventoryComponent {
+  inventory: Inventory;
+}
+
+/**
+ * 由 AIManager 驱动的实体；AIManager 在实体加入时填入对话与行为的提供者
+ */
+export interface AIControlledComponent {
+  dialogueProvider?: DialogueProvider;
+  behaviorProvider?: BehaviorProvider;
+}
+
+/**
+ * NPC 的角色设定，对话上下文与初始需求都从这里读取
+ */
+export interface PersonaComponent {
+  archetype: NPCArchetype;
+}
+
+export type NPCActionStatus = "started" | "completed" | "failed" | "preempted";
+
+export type NPCActivity = "idle" | "walking" | "working" | "sleeping" | "eating" | "fleeing" | "talking" | "fighting";
+
+/**
+ * NPC 正在执行的行为决策，由 NPCActionSystem 推进。
+ * 执行分两段：先走到目标位置，到达后进行 duration 秒的活动
+ */
+export interface NPCActionComponent {
+  decision: NPCBehaviorDecision | null;
+  activity: NPCActivity;
+  /** 行走阶段剩余的路径点 */
+  path: Vector2[];
+  /** 行走阶段已用的时间（毫秒） */
+  travelTime: number;
+  /** 活动阶段已用的时间（毫秒） */
+  activityTime: number;
+  /** 朝向，用于翻转图形与面向玩家 */
+  facing: Vector2;
+}
+
+export type MonsterState = "idle" | "patrol" | "notice" | "chase" | "attack" | "shoot" | "flee" | "return";
+
+/**
+ * 怪物状态机的数据，由 EnemyAISystem 推进
+ */
+export interface MonsterAIComponent {
+  profile: MonsterProfile;
+  state: MonsterState;
+  /** 当前状态已持续的时间（毫秒） */
+  stateTime: number;
+  /** 出生点，巡逻与拉扯距离都以此为中心 */
+  home: Vector2;
+  patrolTarget: Vector2 | null;
+  /** 本次停留的时长（毫秒） */
+  idleDuration: number;
+}
+
+/**
+ * 由生成器按群系生成的非持久实体：离玩家太远时被回收，也不写入存档
+ */
+export interface SpawnedComponent {
+  /** 生成时所在的区块 */
+  chunkId: string;
+}
+
+export interface RenderableComponent {
+  view: Container;
+  /** 图形内容是否已创建，无头模式下始终为 false */
+  mounted: boolean;
+  /** 占位图形；动画图集加载成功后隐藏，加载失败时继续显示 */
+  placeholder?: Container;
+}
+
+/**
+ * 实体当前播放的动画，由 AnimationSystem 按速度与状态选择并推进
+ */
+export interface AnimationComponent {
+  /** 动画集ID，见 src/data/animations */
+  set: string;
+  clip: string;
+  direction: AnimationDirection;
+  frame: number;
+  /** 当前帧已播放的时间（毫秒） */
+  frameTime: number;
+  /** 正在播放的一次性动画（攻击、受伤），播完后回到移动动画 */
+  oneShot: string | null;
+  /** 非循环动画已播到最后一帧 */
+  finished: boolean;
+}
+
+export interface PhysicsBodyComponent {
+  body: Body;
+}
+
+/**
+ * 组件名到组件类型的映射。插件可以通过声明合并添加自己的组件
+ */
+export interface ComponentMap {
+  health: HealthComponent;
+  combat: CombatComponent;
+  ranged: RangedComponent;
+  loot: LootComponent;
+  faction: FactionComponent;
+  inventory: InventoryComponent;
+  vitals: VitalsComponent;
+  aiControlled: AIControlledComponent;
+  persona: PersonaComponent;
+  npcAction: NPCActionComponent;
+  monsterAI: MonsterAIComponent;
+  spawned: SpawnedComponent;
+  renderable: RenderableComponent;
+  animation: AnimationComponent;
+  physicsBody: PhysicsBodyComponent;
+}
+
+export type ComponentName = keyof ComponentMap;
+
+/**
+ * 随实体快照持久化的组件；其余组件由实体类或系统在创建时重建
+ */
+export const PERSISTED_COMPONENTS = ["health", "faction", "vitals"] as const;
+
+export type PersistedComponents = Partial<Pick<ComponentMap, (typeof PERSISTED_COMPONENTS)[number]>>;
@@ -1,25 +1,68 @@
 import { Body, Bodies } from "matter-js";
-import { Container, Graphics } from "pixi.js";
+import { Graphics } from "pixi.js";
+import { getMonsterProfile } from "@/ai/MonsterProfiles";
 import { EntityType } from "@/types";
-import { BaseEntity } from "./BaseEntity";
+import { BaseEntity, EntitySnapshotData } from "./BaseEntity";
 
+/**
+ * 野怪原型：生命、阵营、近战与掉落组件，行为由 EnemyAISystem 按 monsterName 对应的参数驱动
+ */
 export class Enemy extends BaseEntity {
   public readonly type: EntityType = "enemy";
 
-  private readonly graphics: Graphics;
-  private readonly patrolRadius = 120;
-  private readonly speed = 2.5;
-  private readonly origin = { ...this.position };
-  private patrolAngle = 0;
+  private readonly graphics = new Graphics();
 
   constructor(x: number, y: number, public readonly monsterName: string) {
     super(x, y);
 
-    this.graphics = new Graphics();
-    this.sprite = new Container();
+    const profile = getMonsterProfile(monsterName);
     this.sprite.zIndex = 11; // Enemy在基础实体之上，但在NPC和玩家之下
-    this.sprite.addChild(this.graphics);
-    this.render();
+    this.addComponent("health", { current: profile.maxHealth, max: profile.maxHealth });
+    this.addComponent("faction", { id: "wildlife" });
+    this.addComponent("combat", {
+      damage: profile.damage,
+      range: profile.attackRange,
+      arc: profile.attackArc,
+      knockback: profile.knockback,
+      cooldown: profile.attackCooldown,
+      cooldownRemaining: 0,
+      pendingAttack: null,
+    });
+    this.addComponent("loot", {
+      table: [
+        { item: { id: "hide", name: "兽皮" }, chance: 0.8, min: 1, max: 2 },
+        { item: { id: "raw_meat", name: "生肉" }, chance: 0.5, min: 1, max: 1 },
+      ],
+    });
+    this.addComponent("monsterAI", {
+      profile,
+      state: "idle",
+      stateTime: 0,
+      home: { x, y },
+      patrolTarget: null,
+      idleDuration: profile.idleTime[0],
+    });
+    if (profile.ranged) {
+      this.addComponent("ranged", {
+        projectile: profile.ranged.projectile,
+        cooldown: profile.ranged.cooldown,
+        cooldownRemaining: 0,
+        pendingShot: null,
+      });
+    }
+    this.addComponent("animation", {
+      set: profile.sprite ?? monsterName,
+      clip: "idle",
+      direction: "down",
+      frame: 0,
+      frameTime: 0,
+      oneShot: null,
+      finished: false,
+    });
+  }
+
+  getDisplayName(): string {
+    return this.monsterName;
   }
 
   createPhysicsBody(): Body {
@@ -31,21 +74,31 @@ export class Enemy extends BaseEntity {
     return body;
   }
 
-  update(delta: number): void {
-    this.patrolAngle += (delta / 1000) * 0.5;
-    const targetX = this.origin.x + Math.cos(this.patrolAngle) * this.patrolRadius;
-    const targetY = this.origin.y + Math.sin(this.patrolAngle) * this.patrolRadius;
-    const body = this.getBody();
-    const deltaX = targetX - body.position.x;
-    const deltaY = targetY - body.position.y;
-    const distance = Math.hypot(deltaX, deltaY) || 1;
-    Body.setVelocity(body, {
-      x: (deltaX / distance) * this.speed,
-      y: (deltaY / distance) * this.speed,
-    });
+  update(): void {
     this.syncGraphics();
   }
 
+  protected serializeData(): EntitySnapshotData {
+    const { home } = this.requireComponent("monsterAI");
+    return {
+      monsterName: this.monsterName,
+      origin: { ...home },
+    };
+  }
+
+  protected restoreData(data: EntitySnapshotData): void {
+    const origin = data.origin as { x: number; y: number } | undefined;
+    if (origin) {
+      this.requireComponent("monsterAI").home = { ...origin };
+    }
+  }
+
+  protected createView(): void {
+    this.sprite.addChild(this.graphics);
+    this.requireComponent("renderable").placeholder = this.graphics;
+    this.render();
+  }
+
   private render(): void {
     console.log(`[Enemy] 开始渲染敌人: ${this.monsterName}`);
     this.graphics.clear();
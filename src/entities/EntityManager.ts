@@ -1,23 +1,61 @@
+import type { Body } from "matter-js";
+import { listNPCArchetypes, resolveNPCArchetype } from "@/ai/NPCArchetypes";
 import { EventBus } from "@/core/EventBus";
 import { GameSystem } from "@/core/SystemManager";
 import { WorldManager } from "@/world/WorldManager";
-import { BaseEntity } from "./BaseEntity";
+import { BaseEntity, EntitySnapshot, EntitySnapshotData } from "./BaseEntity";
+import { ComponentName } from "./Components";
+import { EntityFilter, Rect, SpatialIndex } from "./SpatialIndex";
 import { Player } from "./Player";
 import { NPC } from "./NPC";
 import { Enemy } from "./Enemy";
 import { PhysicsEngine } from "@/physics/PhysicsEngine";
 import { RenderingSystem } from "@/rendering/RenderingSystem";
+import { EntityType, Vector2 } from "@/types";
+
+/**
+ * 按类型创建实体；data 为存档或生成时附带的额外字段
+ */
+export type EntityFactory = (x: number, y: number, data?: EntitySnapshotData) => BaseEntity;
+
+export interface DefaultSpawn {
+  type: EntityType;
+  position: Vector2;
+  data?: EntitySnapshotData;
+}
+
+/** 视野剔除时在镜头四周额外保留的距离，避免大尺寸精灵在边缘突然消失 */
+const CULL_MARGIN = 128;
 
 export class EntityManager implements GameSystem {
   public readonly name = "entities";
   public readonly priority = 70;
+  public readonly dependsOn = ["physics", "world"];
 
   private entities = new Map<string, BaseEntity>();
-  private player!: Player;
+  private player: Player | null = null;
+  private readonly spatialIndex = new SpatialIndex();
+  /** 刚体ID到实体，用于把碰撞事件对应回实体 */
+  private readonly bodyEntities = new Map<number, BaseEntity>();
+  /** 上一帧处于镜头范围内、保持可见的实体 */
+  private visibleEntities = new Set<BaseEntity>();
+  private readonly factories = new Map<EntityType, EntityFactory>([
+    ["npc", (x, y, data) => new NPC(x, y, resolveNPCArchetype(String(data?.archetype ?? data?.name ?? "村民"), { x, y }))],
+    ["enemy", (x, y, data) => new Enemy(x, y, String(data?.monsterName ?? data?.name ?? "荒野巨蜥"))],
+  ]);
+  private readonly defaultSpawns: DefaultSpawn[] = [
+    // 数据文件中的村民在各自的家中生成
+    ...listNPCArchetypes().map((archetype): DefaultSpawn => ({
+      type: "npc",
+      position: { ...archetype.home },
+      data: { archetype: archetype.id },
+    })),
+    { type: "enemy", position: { x: 800, y: 450 }, data: { monsterName: "荒野巨蜥" } },
+  ];
 
   constructor(
     private readonly physics: PhysicsEngine,
-    private readonly rendering: RenderingSystem,
+    private readonly rendering: RenderingSystem | null,
     private readonly world: WorldManager,
     private readonly eventBus: EventBus,
   ) {}
@@ -29,11 +67,14 @@ export class EntityManager implements GameSystem {
   update(delta: number): void {
     for (const entity of this.entities.values()) {
       entity.update(delta);
+      this.world.trackEntity(entity.id, entity.getBody().position);
+      this.spatialIndex.update(entity);
     }
 
     if (this.player) {
       this.world.focusPosition(this.player.getBody().position);
     }
+    this.cullViews();
   }
 
   addEntity(entity: BaseEntity): void {
@@ -45,17 +86,26 @@ export class EntityManager implements GameSystem {
     this.physics.addBody(entity.getBody());
     console.log(`[EntityManager] 物理体已添加到物理引擎`);
     
-    const sprite = entity.getSprite();
-    console.log(`[EntityManager] 获取精灵，zIndex: ${sprite.zIndex}, 子元素数量: ${sprite.children.length}`);
-    
-    this.rendering.getStage().addChild(sprite);
-    console.log(`[EntityManager] 精灵已添加到舞台，舞台子元素数量: ${this.rendering.getStage().children.length}`);
+    // 无头模式下没有渲染系统，实体不创建图形
+    if (this.rendering && entity.hasComponents("renderable")) {
+      const sprite = entity.mountView();
+      console.log(`[EntityManager] 获取精灵，zIndex: ${sprite.zIndex}, 子元素数量: ${sprite.children.length}`);
+
+      this.rendering.getStage().addChild(sprite);
+      console.log(`[EntityManager] 精灵已添加到舞台，舞台子元素数量: ${this.rendering.getStage().children.length}`);
+    }
     
     this.entities.set(entity.id, entity);
+    this.bodyEntities.set(entity.getBody().id, entity);
+    this.world.trackEntity(entity.id, entity.getBody().position);
+    this.spatialIndex.update(entity);
+    if (entity.hasComponents("renderable")) {
+      this.visibleEntities.add(entity);
+    }
     console.log(`[EntityManager] 实体已添加到实体映射，总实体数: ${this.entities.size}`);
 
-    if (entity instanceof Player) {
-      this.player = entity;
+    if (entity.type === "player") {
+      this.player = entity as Player;
       console.log(`[EntityManager] 玩家实体已设置`);
     }
 
@@ -68,47 +118,231 @@ export class EntityManager implements GameSystem {
     if (!entity) return;
 
     this.physics.removeBody(entity.getBody());
-    this.rendering.getStage().removeChild(entity.getSprite());
+    const renderable = entity.getComponent("renderable");
+    if (renderable) {
+      this.rendering?.getStage().removeChild(renderable.view);
+    }
     this.entities.delete(entityId);
+    this.bodyEntities.delete(entity.getBody().id);
+    this.world.untrackEntity(entityId);
+    this.spatialIndex.remove(entityId);
+    this.visibleEntities.delete(entity);
     this.eventBus.emit("entity:removed", { entityId });
   }
 
   getPlayer(): Player {
+    if (!this.player) {
+      throw new Error("Player has not been spawned");
+    }
     return this.player;
   }
 
+  hasPlayer(): boolean {
+    return this.player !== null;
+  }
+
+  /**
+   * 移除包括玩家在内的全部实体，用于离开当前世界
+   */
+  clear(): void {
+    for (const entity of this.listEntities()) {
+      this.removeEntity(entity.id);
+    }
+    this.player = null;
+  }
+
+  /**
+   * 刚体所属的实体；地形等不属于实体的刚体返回 null
+   */
+  getEntityByBody(body: Body): BaseEntity | null {
+    return this.bodyEntities.get(body.id) ?? null;
+  }
+
   listEntities(): BaseEntity[] {
     return [...this.entities.values()];
   }
 
-  getNPCs(): NPC[] {
-    return this.listEntities().filter((entity): entity is NPC => entity instanceof NPC);
+  /**
+   * 按实体类型统计当前数量
+   */
+  countByType(): Partial<Record<EntityType, number>> {
+    const counts: Partial<Record<EntityType, number>> = {};
+    for (const entity of this.entities.values()) {
+      counts[entity.type] = (counts[entity.type] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * 返回同时拥有全部指定组件的实体，例如 query("health", "faction")
+   */
+  query(...components: ComponentName[]): BaseEntity[] {
+    return this.listEntities().filter((entity) => entity.hasComponents(...components));
+  }
+
+  /**
+   * 由 AIManager 驱动、可以对话的实体
+   */
+  getNPCs(): BaseEntity[] {
+    return this.query("aiControlled");
   }
 
-  findNearestNPC(maxDistance: number): NPC | null {
+  findNearestNPC(maxDistance: number): BaseEntity | null {
     if (!this.player) return null;
-    const playerPos = this.player.getBody().position;
-    let nearest: NPC | null = null;
-    let bestDistance = maxDistance;
+    return this.findNearestNPCTo(this.player.getBody().position, maxDistance);
+  }
 
-    for (const entity of this.entities.values()) {
-      if (!(entity instanceof NPC)) continue;
-      const { x, y } = entity.getBody().position;
-      const distance = Math.hypot(playerPos.x - x, playerPos.y - y);
-      if (distance < bestDistance) {
-        bestDistance = distance;
-        nearest = entity;
+  findNearestNPCTo(position: Vector2, maxDistance: number): BaseEntity | null {
+    return this.spatialIndex.nearest(position, (entity) => entity.hasComponents("aiControlled"), maxDistance);
+  }
+
+  /**
+   * 与 center 距离不超过 radius 的实体，按刚体位置计算
+   */
+  queryRadius(center: Vector2, radius: number, filter?: EntityFilter): BaseEntity[] {
+    return this.spatialIndex.queryRadius(center, radius, filter);
+  }
+
+  queryRect(rect: Rect, filter?: EntityFilter): BaseEntity[] {
+    return this.spatialIndex.queryRect(rect, filter);
+  }
+
+  /**
+   * 离 position 最近的实体；type 为 null 时不限类型
+   */
+  nearest(position: Vector2, type: EntityType | null, filter?: EntityFilter, maxDistance?: number): BaseEntity | null {
+    return this.spatialIndex.nearest(position, byType(type, filter), maxDistance);
+  }
+
+  /**
+   * 离 position 最近的 k 个实体，由近到远排列
+   */
+  kNearest(position: Vector2, k: number, filter?: EntityFilter, maxDistance?: number): BaseEntity[] {
+    return this.spatialIndex.kNearest(position, k, filter, maxDistance);
+  }
+
+  /**
+   * 生成器产生的非持久实体不写入存档，读档后由生成器重新填充
+   */
+  serialize(): EntitySnapshot[] {
+    return this.listEntities()
+      .filter((entity) => !entity.hasComponents("spawned"))
+      .map((entity) => entity.serialize());
+  }
+
+  /**
+   * 用存档中的实体替换当前实体（玩家实体保留并原地恢复），
+   * 返回存档实体ID到新实体的映射，供其他系统重新关联状态
+   */
+  restore(snapshots: EntitySnapshot[]): Map<string, BaseEntity> {
+    for (const entity of this.listEntities()) {
+      if (entity !== this.player) {
+        this.removeEntity(entity.id);
+      }
+    }
+
+    const restored = new Map<string, BaseEntity>();
+    for (const snapshot of snapshots) {
+      if (snapshot.type === "player") {
+        if (this.player) {
+          this.player.restore(snapshot);
+          restored.set(snapshot.id, this.player);
+        }
+        continue;
+      }
+
+      const entity = this.createFromSnapshot(snapshot);
+      if (!entity) {
+        console.warn(`[EntityManager] 无法恢复实体 ${snapshot.id}，未知类型: ${snapshot.type}`);
+        continue;
+      }
+
+      this.addEntity(entity);
+      entity.restore(snapshot);
+      restored.set(snapshot.id, entity);
+    }
+
+    return restored;
+  }
+
+  /**
+   * 注册可生成、可从存档恢复的实体类型；同名类型会被覆盖
+   */
+  registerEntityType(type: EntityType, factory: EntityFactory): () => void {
+    if (type === "player") {
+      throw new Error("The player entity type cannot be replaced");
+    }
+    const previous = this.factories.get(type);
+    this.factories.set(type, factory);
+    return () => {
+      if (this.factories.get(type) !== factory) return;
+      if (previous) {
+        this.factories.set(type, previous);
+      } else {
+        this.factories.delete(type);
       }
+    };
+  }
+
+  getEntityTypes(): EntityType[] {
+    return [...this.factories.keys()];
+  }
+
+  spawn(type: EntityType, position: Vector2, data?: EntitySnapshotData): BaseEntity {
+    const factory = this.factories.get(type);
+    if (!factory) {
+      throw new Error(`Unknown entity type: ${type}`);
     }
+    const entity = factory(position.x, position.y, data);
+    this.addEntity(entity);
+    return entity;
+  }
 
-    return nearest;
+  /**
+   * 追加世界创建时生成的实体
+   */
+  addDefaultSpawn(spawn: DefaultSpawn): () => void {
+    this.defaultSpawns.push(spawn);
+    return () => {
+      const index = this.defaultSpawns.indexOf(spawn);
+      if (index !== -1) this.defaultSpawns.splice(index, 1);
+    };
   }
 
   spawnDefaultNPCs(): void {
-    const npc = new NPC(600, 500, "村民老张");
-    this.addEntity(npc);
+    for (const { type, position, data } of this.defaultSpawns) {
+      try {
+        this.spawn(type, position, data);
+      } catch (error) {
+        console.error(`[EntityManager] 生成默认实体 ${type} 失败`, error);
+      }
+    }
+  }
+
+  /**
+   * 只显示镜头附近的实体，离开视野的精灵不参与渲染
+   */
+  private cullViews(): void {
+    if (!this.rendering) return;
+
+    const view = this.rendering.getCamera().getViewBounds(CULL_MARGIN);
+    const visible = new Set(this.spatialIndex.queryRect(view, (entity) => entity.hasComponents("renderable")));
+    for (const entity of this.visibleEntities) {
+      if (!visible.has(entity)) entity.getSprite().visible = false;
+    }
+    for (const entity of visible) {
+      if (!this.visibleEntities.has(entity)) entity.getSprite().visible = true;
+    }
+    this.visibleEntities = visible;
+  }
 
-    const enemy = new Enemy(800, 450, "荒野巨蜥");
-    this.addEntity(enemy);
+  private createFromSnapshot(snapshot: EntitySnapshot): BaseEntity | null {
+    const factory = this.factories.get(snapshot.type);
+    return factory ? factory(snapshot.position.x, snapshot.position.y, snapshot.data) : null;
   }
 }
+
+function byType(type: EntityType | null, filter?: EntityFilter): EntityFilter | undefined {
+  if (type === null) return filter;
+  return (entity) => entity.type === type && (!filter || filter(entity));
+}
@@ -1,67 +1,102 @@
 import { Body, Bodies } from "matter-js";
-import { Container, Graphics, Text } from "pixi.js";
+import { Graphics, Text } from "pixi.js";
+import { NPCArchetype, NPCCombat, parseColor } from "@/ai/NPCArchetypes";
 import { DialogueResponse, EntityType, NPCBehaviorDecision } from "@/types";
-import { BaseEntity } from "./BaseEntity";
+import { BaseEntity, EntitySnapshotData } from "./BaseEntity";
+import { NPCActivity } from "./Components";
 
-export type DialogueProvider = (npc: NPC) => Promise<DialogueResponse>;
-export type BehaviorProvider = (npc: NPC) => Promise<NPCBehaviorDecision>;
+/** 活动状态在名字后显示的标记 */
+const ACTIVITY_MARKS: Partial<Record<NPCActivity, string>> = {
+  working: "🔨",
+  sleeping: "💤",
+  eating: "🍖",
+  fleeing: "❗",
+  talking: "💬",
+  fighting: "⚔️",
+};
 
+/** 设定中没有 combat 的村民只会挥拳 */
+const DEFAULT_COMBAT: NPCCombat = { damage: 5, cooldown: 1500 };
+const ATTACK_RANGE = 40;
+
+/**
+ * 村民：按角色设定创建生命、阵营、战斗、角色设定与 AI 控制组件
+ */
 export class NPC extends BaseEntity {
   public readonly type: EntityType = "npc";
+  public readonly name: string;
 
-  private readonly graphics: Graphics;
-  private readonly label: Text;
-
-  private dialogueProvider?: DialogueProvider;
-  private behaviorProvider?: BehaviorProvider;
+  private readonly graphics = new Graphics();
+  private label?: Text;
+  private shownActivity: NPCActivity = "idle";
 
-  constructor(x: number, y: number, public readonly name: string) {
+  constructor(x: number, y: number, public readonly archetype: NPCArchetype) {
     super(x, y);
 
-    this.graphics = new Graphics();
-    this.label = new Text({
-      text: name,
-      style: {
-        fill: 0xffffff,
-        fontSize: 12,
-        fontFamily: "Microsoft YaHei, sans-serif",
-      }
-    });
-
-    this.sprite = new Container();
+    this.name = archetype.name;
     this.sprite.zIndex = 12; // NPC在基础实体之上，但在玩家之下
-    this.sprite.addChild(this.graphics, this.label);
-    this.label.position.set(-this.label.width / 2, -50);
-    this.render();
-  }
-
-  setDialogueProvider(provider: DialogueProvider): void {
-    this.dialogueProvider = provider;
+    this.addComponent("health", { current: 100, max: 100 });
+    this.addComponent("faction", { id: archetype.faction });
+    const { damage, cooldown } = archetype.combat ?? DEFAULT_COMBAT;
+    this.addComponent("combat", {
+      damage,
+      range: ATTACK_RANGE,
+      arc: Math.PI / 2,
+      knockback: 3,
+      cooldown,
+      cooldownRemaining: 0,
+      pendingAttack: null,
+    });
+    this.addComponent("persona", { archetype });
+    this.addComponent("aiControlled", {});
+    this.addComponent("npcAction", {
+      decision: null,
+      activity: "idle",
+      path: [],
+      travelTime: 0,
+      activityTime: 0,
+      facing: { x: 1, y: 0 },
+    });
+    this.addComponent("animation", {
+      set: archetype.appearance.sprite ?? "villager",
+      clip: "idle",
+      direction: "down",
+      frame: 0,
+      frameTime: 0,
+      oneShot: null,
+      finished: false,
+    });
   }
 
-  setBehaviorProvider(provider: BehaviorProvider): void {
-    this.behaviorProvider = provider;
+  getDisplayName(): string {
+    return this.name;
   }
 
   async talk(): Promise<DialogueResponse> {
-    if (!this.dialogueProvider) {
+    const { dialogueProvider } = this.requireComponent("aiControlled");
+    if (!dialogueProvider) {
       return {
         speaker: this.name,
         text: "你好，旅人！",
         emotion: "neutral",
       };
     }
-    return this.dialogueProvider(this);
+    return dialogueProvider(this);
   }
 
   async think(): Promise<NPCBehaviorDecision | null> {
-    if (!this.behaviorProvider) return null;
-    return this.behaviorProvider(this);
+    const { behaviorProvider } = this.requireComponent("aiControlled");
+    if (!behaviorProvider) return null;
+    return behaviorProvider(this);
   }
 
   createPhysicsBody(): Body {
-    const body = Bodies.rectangle(this.position.x, this.position.y, 30, 50, {
-      isStatic: true,
+    const { width, height } = this.archetype.appearance;
+    // 动态刚体由 NPCActionSystem 设置速度；锁定转动惯量保持直立
+    const body = Bodies.rectangle(this.position.x, this.position.y, width, height, {
+      friction: 0.05,
+      restitution: 0.2,
+      inertia: Infinity,
       label: "npc",
     });
     return body;
@@ -69,18 +104,54 @@ export class NPC extends BaseEntity {
 
   update(): void {
     this.syncGraphics();
+
+    const { activity, facing } = this.requireComponent("npcAction");
+    // 图形朝向行进或面对的方向；睡觉时变暗
+    this.graphics.scale.x = facing.x < 0 ? -1 : 1;
+    this.graphics.alpha = activity === "sleeping" ? 0.6 : 1;
+    if (this.label && activity !== this.shownActivity) {
+      const mark = ACTIVITY_MARKS[activity];
+      this.label.text = mark ? `${this.name} ${mark}` : this.name;
+      this.label.position.x = -this.label.width / 2;
+      this.shownActivity = activity;
+    }
+  }
+
+  protected serializeData(): EntitySnapshotData {
+    return { name: this.name, archetype: this.archetype.id };
+  }
+
+  protected createView(): void {
+    // 文字测量依赖 canvas，因此标签只在挂载到舞台时创建
+    this.label = new Text({
+      text: this.name,
+      style: {
+        fill: 0xffffff,
+        fontSize: 12,
+        fontFamily: "Microsoft YaHei, sans-serif",
+      }
+    });
+    this.sprite.addChild(this.graphics, this.label);
+    this.requireComponent("renderable").placeholder = this.graphics;
+    this.label.position.set(-this.label.width / 2, -this.archetype.appearance.height / 2 - 25);
+    this.render();
   }
 
   private render(): void {
     console.log(`[NPC] 开始渲染 NPC: ${this.name}`);
     this.graphics.clear();
-    
+
+    // 图形比碰撞体大一圈，与原先 30x50 刚体配 60x80 图形的比例一致
+    const { color, width, height } = this.archetype.appearance;
+    const drawWidth = width * 2;
+    const drawHeight = height * 1.6;
+
     // 使用 PIXI.js v8 的正确 API - 链式调用
     // 绘制黑色边框
-    this.graphics.roundRect(-32, -42, 64, 84, 8).fill(0x000000);
-    // 绘制黄色主体
-    this.graphics.roundRect(-30, -40, 60, 80, 6).fill(0xf1c40f);
-    
-    console.log(`[NPC] NPC 渲染完成: ${this.name}，颜色: 黄色 (0xf1c40f)，尺寸: 60x80，带黑色边框`);
+    this.graphics.roundRect(-drawWidth / 2 - 2, -drawHeight / 2 - 2, drawWidth + 4, drawHeight + 4, 8).fill(0x000000);
+    // 绘制主体
+    this.graphics.roundRect(-drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight, 6).fill(parseColor(color));
+
+    console.log(`[NPC] NPC 渲染完成: ${this.name}，颜色: ${color}，尺寸: ${drawWidth}x${drawHeight}，带黑色边框`);
   }
 }
@@ -1,32 +1,83 @@
 import { Body, Bodies } from "matter-js";
-import { Container, Graphics } from "pixi.js";
-import { InputManager } from "@/core/InputManager";
-import { EntityType } from "@/types";
+import { Graphics } from "pixi.js";
+import { InputSource } from "@/core/InputManager";
+import { EntityType, Vector2 } from "@/types";
 import { clamp } from "@/utils/MathUtils";
+import { Pathfinder } from "@/world/Pathfinder";
 import { BaseEntity } from "./BaseEntity";
 
 export class Player extends BaseEntity {
   public readonly type: EntityType = "player";
 
-  private readonly graphics: Graphics;
+  private readonly graphics = new Graphics();
   private readonly baseSpeed = 5;
   private readonly sprintMultiplier = 2;
   private mouseTarget: { x: number; y: number } | null = null;
   private isMovingToTarget = false;
+  private path: Vector2[] = [];
+  /** 最近一次移动的方向，按动作键攻击时朝这个方向出手 */
+  private facing: Vector2 = { x: 1, y: 0 };
 
-  constructor(x: number, y: number, private readonly input: InputManager) {
+  constructor(
+    x: number,
+    y: number,
+    private readonly input: InputSource,
+    private readonly pathfinder?: Pathfinder,
+  ) {
     super(x, y);
     console.log(`[Player] 构造函数开始，位置: (${x}, ${y})`);
     
-    this.graphics = new Graphics();
-    this.sprite = new Container();
-    this.sprite.addChild(this.graphics);
     this.sprite.zIndex = 15; // 玩家应该在其他实体之上
-    this.render();
+    this.addComponent("health", { current: 100, max: 100 });
+    this.addComponent("faction", { id: "player" });
+    this.addComponent("combat", {
+      damage: 20,
+      range: 70,
+      arc: Math.PI * 0.6,
+      knockback: 12,
+      cooldown: 400,
+      cooldownRemaining: 0,
+      pendingAttack: null,
+      staminaCost: 10,
+    });
+    this.addComponent("ranged", {
+      projectile: "arrow",
+      cooldown: 600,
+      cooldownRemaining: 0,
+      pendingShot: null,
+      staminaCost: 5,
+    });
+    this.addComponent("vitals", {
+      stamina: 100,
+      maxStamina: 100,
+      hunger: 20,
+      thirst: 20,
+      level: 1,
+      experience: 0,
+      attributePoints: 0,
+      attributes: { strength: 0, endurance: 0, vitality: 0 },
+      sprinting: false,
+      exhausted: false,
+      restTime: 0,
+      calmTime: 0,
+    });
+    this.addComponent("animation", {
+      set: "player",
+      clip: "idle",
+      direction: "down",
+      frame: 0,
+      frameTime: 0,
+      oneShot: null,
+      finished: false,
+    });
     
     console.log(`[Player] 构造函数完成，精灵已创建，zIndex: ${this.sprite.zIndex}`);
   }
 
+  getDisplayName(): string {
+    return "玩家";
+  }
+
   createPhysicsBody(): Body {
     console.log(`[Player] 创建物理体，位置: (${this.position.x}, ${this.position.y})`);
     const body = Bodies.rectangle(this.position.x, this.position.y, 40, 60, {
@@ -44,71 +95,76 @@ export class Player extends BaseEntity {
     const mouseState = inputState.mouse;
     
     // 处理鼠标目标移动
+    // 点击目标在走到之前一直保留，只有新的点击才算攻击或重新寻路
     const mouseTarget = this.input.getMouseTarget();
-    if (mouseTarget && !this.isMovingToTarget) {
-      // 将屏幕坐标转换为世界坐标（这里需要考虑摄像机偏移）
-      // 暂时使用屏幕坐标，后续可以添加摄像机转换
-      this.mouseTarget = { ...mouseTarget };
-      this.isMovingToTarget = true;
-      console.log(`[Player] 设置鼠标目标位置: (${mouseTarget.x}, ${mouseTarget.y})`);
+    const freshClick = mouseTarget !== null && (!this.isMovingToTarget || !this.isSameTarget(mouseTarget));
+    if (freshClick && this.isWithinAttackReach(mouseTarget)) {
+      // 点在攻击范围内视为朝点击方向攻击，而不是移动
+      this.requestAttack({ x: mouseTarget.x - this.body.position.x, y: mouseTarget.y - this.body.position.y });
+      this.stopMoving();
+    } else if (freshClick) {
+      // 鼠标目标已是世界坐标，规划绕开障碍物的路径
+      this.setMoveTarget(mouseTarget);
     }
 
     let dx = 0;
     let dy = 0;
 
-    // 键盘移动输入
-    const keyboardDx = (this.input.isActive("right") ? 1 : 0) - (this.input.isActive("left") ? 1 : 0);
-    const keyboardDy = (this.input.isActive("down") ? 1 : 0) - (this.input.isActive("up") ? 1 : 0);
-
-    // 如果有键盘输入，取消鼠标目标移动
-    if (keyboardDx !== 0 || keyboardDy !== 0) {
-      this.isMovingToTarget = false;
-      this.mouseTarget = null;
-      this.input.clearMouseTarget();
-      dx = keyboardDx;
-      dy = keyboardDy;
-    } else if (this.isMovingToTarget && this.mouseTarget) {
-      // 鼠标目标移动
-      const targetX = this.mouseTarget.x;
-      const targetY = this.mouseTarget.y;
-      const currentX = this.body.position.x;
-      const currentY = this.body.position.y;
-      
-      const distanceX = targetX - currentX;
-      const distanceY = targetY - currentY;
+    // 键盘/手柄移动输入，摇杆推动幅度决定速度
+    const movement = this.input.getMovementVector();
+
+    // 如果有方向输入，取消鼠标目标移动
+    if (movement.x !== 0 || movement.y !== 0) {
+      this.stopMoving();
+      dx = movement.x;
+      dy = movement.y;
+    } else if (this.isMovingToTarget && this.path.length > 0) {
+      // 沿路径点依次移动
+      const waypoint = this.path[0];
+      const distanceX = waypoint.x - this.body.position.x;
+      const distanceY = waypoint.y - this.body.position.y;
       const distance = Math.hypot(distanceX, distanceY);
-      
-      // 如果接近目标，停止移动
+
+      // 接近当前路径点时切换到下一个，到达终点则停止移动
       if (distance < 10) {
-        this.isMovingToTarget = false;
-        this.mouseTarget = null;
-        this.input.clearMouseTarget();
-        dx = 0;
-        dy = 0;
+        this.path.shift();
+        if (this.path.length === 0) {
+          this.stopMoving();
+        }
       } else {
         dx = distanceX / distance;
         dy = distanceY / distance;
       }
     }
 
-    // 计算移动速度（考虑冲刺）
+    // 计算移动速度（考虑冲刺）；冲刺消耗体力，体力耗尽后需要先恢复
     let currentSpeed = this.baseSpeed;
-    if (this.input.isActive("sprint")) {
+    const vitals = this.getComponent("vitals");
+    const sprinting = this.input.isActive("sprint") && (dx !== 0 || dy !== 0) && !vitals?.exhausted;
+    if (vitals) vitals.sprinting = sprinting;
+    if (sprinting) {
       currentSpeed *= this.sprintMultiplier;
     }
 
-    // 标准化移动向量
-    const length = Math.hypot(dx, dy) || 1;
+    // 标准化移动向量（只压缩超过 1 的长度，保留模拟输入的幅度）
+    const length = Math.max(1, Math.hypot(dx, dy));
     const normalizedX = dx / length;
     const normalizedY = dy / length;
 
     const velocityX = clamp(normalizedX * currentSpeed, -currentSpeed, currentSpeed);
     const velocityY = clamp(normalizedY * currentSpeed, -currentSpeed, currentSpeed);
 
-    Body.setVelocity(this.getBody(), {
-      x: velocityX * (delta / 16),
-      y: velocityY * (delta / 16),
-    });
+    if (normalizedX !== 0 || normalizedY !== 0) {
+      this.facing = { x: normalizedX, y: normalizedY };
+    }
+
+    // 硬直期间不覆盖速度，让击退生效
+    if (!this.getComponent("health")?.staggerTime) {
+      Body.setVelocity(this.getBody(), {
+        x: velocityX * (delta / 16),
+        y: velocityY * (delta / 16),
+      });
+    }
 
     // 处理其他输入
     if (this.input.isActive("jump")) {
@@ -116,12 +172,16 @@ export class Player extends BaseEntity {
       console.log("[Player] 跳跃!");
     }
 
-    if (this.input.isActive("action")) {
-      console.log("[Player] 执行动作!");
+    // 按住攻击键时按攻击间隔连续出手；动作键只用于对话，避免对话被拒绝或关闭时误伤 NPC
+    if (this.input.isActive("attack")) {
+      this.requestAttack(this.facing);
     }
 
-    if (mouseState.rightButton) {
-      console.log("[Player] 右键动作!");
+    // 右键朝光标所在的世界坐标射击，射击键朝面向的方向射击
+    if (mouseState.rightButton && inputState.aim) {
+      this.requestShot({ x: inputState.aim.x - this.body.position.x, y: inputState.aim.y - this.body.position.y });
+    } else if (this.input.isActive("fire")) {
+      this.requestShot(this.facing);
     }
 
     // 处理滚轮缩放（可以传递给摄像机系统）
@@ -147,11 +207,68 @@ export class Player extends BaseEntity {
       console.log(`  - 滚轮增量: ${mouseState.wheelDelta}`);
       console.log(`  - 鼠标目标: ${this.mouseTarget ? `(${this.mouseTarget.x.toFixed(0)}, ${this.mouseTarget.y.toFixed(0)})` : 'null'}`);
       console.log(`  - 移动到目标: ${this.isMovingToTarget}`);
-      console.log(`  - 当前速度: ${currentSpeed.toFixed(1)} (基础: ${this.baseSpeed}, 冲刺: ${this.input.isActive("sprint")})`);
+      console.log(`  - 当前速度: ${currentSpeed.toFixed(1)} (基础: ${this.baseSpeed}, 冲刺: ${sprinting})`);
       console.log(`  - 玩家位置: (${this.body.position.x.toFixed(1)}, ${this.body.position.y.toFixed(1)})`);
     }
   }
 
+  private setMoveTarget(target: Vector2): void {
+    this.mouseTarget = { ...target };
+    const path = this.pathfinder
+      ? this.pathfinder.findPath(this.body.position, target)
+      : [{ ...target }];
+
+    if (!path) {
+      console.log(`[Player] 目标位置不可达: (${target.x.toFixed(0)}, ${target.y.toFixed(0)})`);
+      this.stopMoving();
+      return;
+    }
+
+    this.path = path;
+    this.isMovingToTarget = true;
+    console.log(`[Player] 设置移动目标: (${target.x.toFixed(0)}, ${target.y.toFixed(0)})，路径点 ${path.length} 个`);
+  }
+
+  private requestAttack(direction: Vector2): void {
+    const combat = this.getComponent("combat");
+    const stamina = this.getComponent("vitals")?.stamina ?? Infinity;
+    if (combat && combat.cooldownRemaining === 0 && stamina >= (combat.staminaCost ?? 0)) {
+      combat.pendingAttack = { ...direction };
+    }
+  }
+
+  private requestShot(direction: Vector2): void {
+    const ranged = this.getComponent("ranged");
+    const stamina = this.getComponent("vitals")?.stamina ?? Infinity;
+    if (ranged && ranged.cooldownRemaining === 0 && stamina >= (ranged.staminaCost ?? 0)) {
+      ranged.pendingShot = { ...direction };
+    }
+  }
+
+  private isWithinAttackReach(target: Vector2): boolean {
+    const combat = this.getComponent("combat");
+    if (!combat) return false;
+    const { x, y } = this.body.position;
+    return Math.hypot(target.x - x, target.y - y) <= combat.range;
+  }
+
+  private isSameTarget(target: Vector2): boolean {
+    return this.mouseTarget !== null && this.mouseTarget.x === target.x && this.mouseTarget.y === target.y;
+  }
+
+  private stopMoving(): void {
+    this.isMovingToTarget = false;
+    this.mouseTarget = null;
+    this.path = [];
+    this.input.clearMouseTarget();
+  }
+
+  protected createView(): void {
+    this.sprite.addChild(this.graphics);
+    this.requireComponent("renderable").placeholder = this.graphics;
+    this.render();
+  }
+
   private render(): void {
     this.graphics.clear();
     
@@ -0,0 +1,214 @@
+import { Vector2 } from "@/types";
+import { BaseEntity } from "./BaseEntity";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type EntityFilter = (entity: BaseEntity) => boolean;
+
+interface IndexedEntry {
+  entity: BaseEntity;
+  cellX: number;
+  cellY: number;
+}
+
+const DEFAULT_CELL_SIZE = 128;
+
+/**
+ * 实体的空间哈希。按刚体位置把实体放进固定大小的格子，
+ * 范围查询只检查覆盖到的格子，最近邻查询从所在格子逐圈向外扩展
+ */
+export class SpatialIndex {
+  private readonly cells = new Map<string, Set<IndexedEntry>>();
+  private readonly entries = new Map<string, IndexedEntry>();
+
+  constructor(private readonly cellSize = DEFAULT_CELL_SIZE) {}
+
+  /**
+   * 插入实体或按当前刚体位置更新它所在的格子
+   */
+  update(entity: BaseEntity): void {
+    const { x, y } = entity.getBody().position;
+    const cellX = Math.floor(x / this.cellSize);
+    const cellY = Math.floor(y / this.cellSize);
+
+    const existing = this.entries.get(entity.id);
+    if (existing) {
+      if (existing.cellX === cellX && existing.cellY === cellY) return;
+      this.cellAt(existing.cellX, existing.cellY)?.delete(existing);
+      this.removeEmptyCell(existing.cellX, existing.cellY);
+      existing.cellX = cellX;
+      existing.cellY = cellY;
+      this.addToCell(existing);
+      return;
+    }
+
+    const entry: IndexedEntry = { entity, cellX, cellY };
+    this.entries.set(entity.id, entry);
+    this.addToCell(entry);
+  }
+
+  remove(entityId: string): void {
+    const entry = this.entries.get(entityId);
+    if (!entry) return;
+    this.cellAt(entry.cellX, entry.cellY)?.delete(entry);
+    this.removeEmptyCell(entry.cellX, entry.cellY);
+    this.entries.delete(entityId);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  queryRadius(center: Vector2, radius: number, filter?: EntityFilter): BaseEntity[] {
+    const result: BaseEntity[] = [];
+    const radiusSq = radius * radius;
+    this.forEachInBounds(center.x - radius, center.y - radius, center.x + radius, center.y + radius, (entity) => {
+      const { x, y } = entity.getBody().position;
+      const dx = x - center.x;
+      const dy = y - center.y;
+      if (dx * dx + dy * dy <= radiusSq && (!filter || filter(entity))) {
+        result.push(entity);
+      }
+    });
+    return result;
+  }
+
+  queryRect(rect: Rect, filter?: EntityFilter): BaseEntity[] {
+    const result: BaseEntity[] = [];
+    const maxX = rect.x + rect.width;
+    const maxY = rect.y + rect.height;
+    this.forEachInBounds(rect.x, rect.y, maxX, maxY, (entity) => {
+      const { x, y } = entity.getBody().position;
+      if (x >= rect.x && x <= maxX && y >= rect.y && y <= maxY && (!filter || filter(entity))) {
+        result.push(entity);
+      }
+    });
+    return result;
+  }
+
+  nearest(position: Vector2, filter?: EntityFilter, maxDistance = Infinity): BaseEntity | null {
+    return this.kNearest(position, 1, filter, maxDistance)[0] ?? null;
+  }
+
+  /**
+   * 按距离从近到远返回最多 k 个实体
+   */
+  kNearest(position: Vector2, k: number, filter?: EntityFilter, maxDistance = Infinity): BaseEntity[] {
+    if (k <= 0 || this.entries.size === 0) return [];
+
+    const found: Array<{ entity: BaseEntity; distance: number }> = [];
+    const originX = Math.floor(position.x / this.cellSize);
+    const originY = Math.floor(position.y / this.cellSize);
+    const maxRing = Number.isFinite(maxDistance)
+      ? Math.ceil(maxDistance / this.cellSize) + 1
+      : this.maxRingFrom(originX, originY);
+
+    for (let ring = 0; ring <= maxRing; ring += 1) {
+      this.forEachCellInRing(originX, originY, ring, (cell) => {
+        for (const { entity } of cell) {
+          if (filter && !filter(entity)) continue;
+          const { x, y } = entity.getBody().position;
+          const distance = Math.hypot(x - position.x, y - position.y);
+          if (distance <= maxDistance) found.push({ entity, distance });
+        }
+      });
+
+      // 下一圈的格子离查询点至少 ring * cellSize，已找够且更近时可以停止
+      if (found.length >= k) {
+        found.sort((a, b) => a.distance - b.distance);
+        if (found[k - 1].distance <= ring * this.cellSize) break;
+      }
+    }
+
+    found.sort((a, b) => a.distance - b.distance);
+    return found.slice(0, k).map(({ entity }) => entity);
+  }
+
+  private forEachInBounds(minX: number, minY: number, maxX: number, maxY: number, visit: (entity: BaseEntity) => void): void {
+    const startX = Math.floor(minX / this.cellSize);
+    const endX = Math.floor(maxX / this.cellSize);
+    const startY = Math.floor(minY / this.cellSize);
+    const endY = Math.floor(maxY / this.cellSize);
+
+    // 查询范围覆盖的格子比已占用的格子还多时，直接遍历全部实体
+    if ((endX - startX + 1) * (endY - startY + 1) > this.cells.size) {
+      for (const { entity, cellX, cellY } of this.entries.values()) {
+        if (cellX >= startX && cellX <= endX && cellY >= startY && cellY <= endY) visit(entity);
+      }
+      return;
+    }
+
+    for (let cellX = startX; cellX <= endX; cellX += 1) {
+      for (let cellY = startY; cellY <= endY; cellY += 1) {
+        this.cellAt(cellX, cellY)?.forEach(({ entity }) => visit(entity));
+      }
+    }
+  }
+
+  private forEachCellInRing(originX: number, originY: number, ring: number, visit: (cell: Set<IndexedEntry>) => void): void {
+    if (ring === 0) {
+      const cell = this.cellAt(originX, originY);
+      if (cell) visit(cell);
+      return;
+    }
+    for (let dx = -ring; dx <= ring; dx += 1) {
+      // 上下两条边取整行，左右两条边跳过角上已访问的格子
+      const top = this.cellAt(originX + dx, originY - ring);
+      const bottom = this.cellAt(originX + dx, originY + ring);
+      if (top) visit(top);
+      if (bottom) visit(bottom);
+    }
+    for (let dy = -ring + 1; dy <= ring - 1; dy += 1) {
+      const left = this.cellAt(originX - ring, originY + dy);
+      const right = this.cellAt(originX + ring, originY + dy);
+      if (left) visit(left);
+      if (right) visit(right);
+    }
+  }
+
+  /**
+   * 覆盖全部已占用格子所需的圈数
+   */
+  private maxRingFrom(originX: number, originY: number): number {
+    let maxRing = 0;
+    for (const { cellX, cellY } of this.entries.values()) {
+      maxRing = Math.max(maxRing, Math.abs(cellX - originX), Math.abs(cellY - originY));
+    }
+    return maxRing;
+  }
+
+  private addToCell(entry: IndexedEntry): void {
+    const key = cellKey(entry.cellX, entry.cellY);
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(entry);
+  }
+
+  private cellAt(cellX: number, cellY: number): Set<IndexedEntry> | undefined {
+    return this.cells.get(cellKey(cellX, cellY));
+  }
+
+  private removeEmptyCell(cellX: number, cellY: number): void {
+    const key = cellKey(cellX, cellY);
+    if (this.cells.get(key)?.size === 0) {
+      this.cells.delete(key);
+    }
+  }
+}
+
+function cellKey(cellX: number, cellY: number): string {
+  return `${cellX}:${cellY}`;
+}
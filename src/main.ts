@@ -1,4 +1,7 @@
+import { loadGameConfig } from "@/core/ConfigLoader";
 import { GameEngine } from "@/core/GameEngine";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { downloadJson } from "@/utils/FileUtils";
 
 console.log("[main.ts] 脚本开始执行");
 
@@ -9,15 +12,44 @@ const bootstrap = async () => {
     throw new Error("Missing #game-container element");
   }
 
+  // 默认值 < 预设 < 配置文件 < 环境变量 < URL 参数
+  const config = await loadGameConfig({
+    fileUrl: import.meta.env.GAME_CONFIG_FILE,
+    query: window.location.search,
+    env: import.meta.env,
+  });
+
   const engine = new GameEngine({
     container,
-    seed: Number(import.meta.env.GAME_WORLD_SEED ?? Date.now()),
-    maxAiCallsPerHour: Number(import.meta.env.MAX_AI_CALLS_PER_HOUR ?? 1000),
+    config,
+    seed: config.seed,
+    maxAiCallsPerHour: config.maxAiCallsPerHour,
     deepSeekApiKey: import.meta.env.DEEPSEEK_API_KEY,
     deepSeekBaseUrl: import.meta.env.DEEPSEEK_BASE_URL,
     kimiApiKey: import.meta.env.KIMI_API_KEY,
     kimiBaseUrl: import.meta.env.KIMI_BASE_URL,
-    debug: import.meta.env.ENABLE_DEBUG_MODE === "true",
+    debug: config.enableDebug,
+    recordInput: import.meta.env.RECORD_REPLAY === "true",
+    pluginManifest: import.meta.env.PLUGIN_MANIFEST,
+  });
+
+  const entities = engine.getEntityManager();
+  const ui = engine.getUIManager()!;
+  const saves = engine.getSaveManager();
+  const systems = engine.getSystemManager();
+  const input = engine.getInputManager();
+  const npcActions = engine.getNPCActionSystem();
+  const relationships = engine.getRelationshipSystem();
+  let talkingTo: BaseEntity | null = null;
+
+  // 菜单在初始化结束时显示，需要先接好按钮回调
+  ui.setMenuHandlers({
+    onNewWorld: (seed) => void engine.startNewWorld(seed),
+    onContinue: () => void engine.continueGame("quicksave"),
+    onResume: () => engine.resume(),
+    onRestart: () => void engine.startNewWorld(engine.getSeed()),
+    onQuitToMenu: () => engine.quitToMenu(),
+    canContinue: async () => (await saves.read("quicksave")) !== null,
   });
 
   console.log("[main.ts] 开始初始化游戏引擎...");
@@ -26,22 +58,109 @@ const bootstrap = async () => {
   engine.start();
   console.log("[main.ts] 游戏引擎启动完成！");
 
-  const entities = engine.getEntityManager();
-  const ui = engine.getUIManager();
+  const closeDialogue = () => {
+    ui.hideDialogue();
+    ui.getDialogSystem().close();
+    input.popContext("dialogue");
+    systems.setEnabled("ai", true);
+    if (talkingTo) npcActions.cancel(talkingTo);
+    talkingTo = null;
+  };
+
+  const startDialogue = async (npc: BaseEntity) => {
+    // 对话会冻结 AI 并改变 NPC 行为与关系，这些都不在回放的录制范围内
+    if (engine.isRecording()) {
+      ui.log("录制回放期间无法对话");
+      return;
+    }
+    // 关系太差的 NPC 不理睬玩家，敌对的 NPC 不会因为搭话停手
+    if (!relationships.tryInteract(npc, "talk")) return;
+    // 对话期间冻结AI决策，并切换到对话输入上下文，避免动作键再次触发游戏内交互
+    input.pushContext("dialogue");
+    systems.setEnabled("ai", false);
+    // 对话期间 NPC 停下并面向玩家，优先级高于任何 AI 决策
+    talkingTo = npc;
+    npcActions.assign(npc, {
+      action: "INTERACT",
+      target: "player",
+      priority: Number.MAX_SAFE_INTEGER,
+      duration: Number.MAX_SAFE_INTEGER,
+      reasoning: "正在与玩家对话",
+    });
+    try {
+      const response = await ui.getDialogSystem().open(npc, "你好");
+      if (input.getActiveContext() !== "dialogue") return;
+      await ui.showDialogue(response);
+    } catch (error) {
+      // 请求失败时恢复输入上下文与 AI，并让 NPC 结束互动
+      console.error("[main.ts] 打开对话失败", error);
+      if (talkingTo === npc) closeDialogue();
+    }
+  };
+
+  input.onAction("action", async () => {
+    const npc = entities.findNearestNPC(120);
+    if (npc) await startDialogue(npc);
+  });
+
+  // 触屏点击NPC发起对话；点在别处或NPC离得太远时交给默认的点击移动
+  input.onTap((point) => {
+    const camera = engine.getRenderingSystem()?.getCamera();
+    if (!camera) return false;
+    const npc = entities.findNearestNPCTo(camera.screenToWorld(point), 40);
+    if (!npc) return false;
+    const { x, y } = npc.getBody().position;
+    const playerPos = entities.getPlayer().getBody().position;
+    if (Math.hypot(playerPos.x - x, playerPos.y - y) > 120) return false;
+    void startDialogue(npc);
+    return true;
+  });
+
+  input.onAction("action", closeDialogue, "dialogue");
+  input.onAction("cancel", closeDialogue, "dialogue");
+
+  // Esc 暂停 / 继续
+  input.onAction("cancel", () => engine.pause());
+  input.onAction("cancel", () => engine.resume(), "menu");
+
+  const reportSaveError = (message: string, error: unknown) => {
+    console.error(`[main.ts] ${message}`, error);
+    ui.log(`${message}：${error instanceof Error ? error.message : String(error)}`);
+  };
 
   if (typeof window !== "undefined") {
     window.addEventListener("keydown", async (event) => {
-      if (event.key === "Escape") {
-        ui.hideDialogue();
+      if (engine.getState() !== "playing") return;
+
+      // F5 快速存档，F9 快速读档；存档损坏或版本过新时在日志中提示
+      if (event.key === "F5") {
+        event.preventDefault();
+        try {
+          await saves.save("quicksave");
+        } catch (error) {
+          reportSaveError("快速存档失败", error);
+        }
         return;
       }
 
-      if (event.key.toLowerCase() !== "e") return;
-      const npc = entities.findNearestNPC(120);
-      if (!npc) return;
+      if (event.key === "F9") {
+        event.preventDefault();
+        try {
+          // 存档可能来自其他种子的世界，交给引擎按存档的种子重建世界后再恢复
+          if (talkingTo) closeDialogue();
+          if (!(await engine.continueGame("quicksave"))) ui.log("没有快速存档");
+        } catch (error) {
+          reportSaveError("快速读档失败", error);
+        }
+        return;
+      }
 
-      const response = await ui.getDialogSystem().open(npc, "你好");
-      await ui.showDialogue(response);
+      // F8 导出当前录制的回放文件
+      if (event.key === "F8") {
+        event.preventDefault();
+        const replay = engine.stopRecording();
+        if (replay) downloadJson(replay, `replay-${replay.seed}-${replay.recordedAt}.json`);
+      }
     });
   }
 };
@@ -2,6 +2,12 @@
 import { GameSystem } from "@/core/SystemManager";
 import { Vector2 } from "@/types";
 
+export interface PhysicsBodyStats {
+  total: number;
+  sleeping: number;
+  static: number;
+}
+
 export class PhysicsEngine implements GameSystem {
   public readonly name = "physics";
   public readonly priority = 100;
@@ -11,6 +17,7 @@ export class PhysicsEngine implements GameSystem {
 
   private accumulator = 0;
   private readonly fixedDelta = 1000 / 60;
+  private stepCount = 0;
 
   constructor() {
     this.engine = Engine.create({ enableSleeping: true });
@@ -26,9 +33,25 @@ export class PhysicsEngine implements GameSystem {
     while (this.accumulator >= this.fixedDelta) {
       Matter.Engine.update(this.engine, this.fixedDelta);
       this.accumulator -= this.fixedDelta;
+      this.stepCount += 1;
     }
   }
 
+  /**
+   * 当前世界开始以来执行的固定物理步数
+   */
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * 开始新世界时清零步数与未消耗的时间，回放按帧核对的步数从 0 开始
+   */
+  reset(): void {
+    this.accumulator = 0;
+    this.stepCount = 0;
+  }
+
   setGravity(gravity: Vector2): void {
     this.engine.gravity.x = gravity.x;
     this.engine.gravity.y = gravity.y;
@@ -42,6 +65,22 @@ export class PhysicsEngine implements GameSystem {
     Composite.remove(this.engine.world, body);
   }
 
+  /**
+   * 世界中所有会阻挡移动的静态刚体（不含传感器）
+   */
+  getStaticBodies(): Body[] {
+    return Composite.allBodies(this.engine.world).filter((body: Body) => body.isStatic && !body.isSensor);
+  }
+
+  getBodyStats(): PhysicsBodyStats {
+    const bodies = Composite.allBodies(this.engine.world);
+    return {
+      total: bodies.length,
+      sleeping: bodies.filter((body: Body) => body.isSleeping).length,
+      static: bodies.filter((body: Body) => body.isStatic).length,
+    };
+  }
+
   createStaticRectangle(x: number, y: number, width: number, height: number): Body {
     const rect = Bodies.rectangle(x, y, width, height, { isStatic: true });
     this.addBody(rect);
@@ -0,0 +1,190 @@
+import { parseNPCArchetypes, registerNPCArchetype } from "@/ai/NPCArchetypes";
+import { parseFactions, registerFaction } from "@/ai/RelationshipSystem";
+import { parseAnimationSets, registerAnimationSet } from "@/rendering/AnimationSets";
+import { parseLocations } from "@/world/WorldManager";
+import type { GameEngine } from "@/core/GameEngine";
+import { GamePlugin, PluginAPI, PluginManifest, PluginManifestEntry } from "./PluginTypes";
+
+interface LoadedPlugin {
+  plugin: GamePlugin;
+  api: PluginAPI;
+  disposers: Array<() => void>;
+}
+
+/**
+ * 加载插件清单并把插件注册的内容接入引擎。单个插件加载失败只记录错误，不影响其他插件
+ */
+export class PluginManager {
+  private readonly loaded = new Map<string, LoadedPlugin>();
+
+  constructor(private readonly engine: GameEngine) {}
+
+  async loadManifest(url: string): Promise<void> {
+    let manifest: PluginManifest;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      manifest = validateManifest(await response.json());
+    } catch (error) {
+      console.error(`[PluginManager] 读取插件清单 ${url} 失败`, error);
+      return;
+    }
+
+    const baseUrl = new URL(url, typeof location !== "undefined" ? location.href : undefined);
+    for (const entry of manifest.plugins) {
+      if (entry.enabled === false) continue;
+      try {
+        await this.install(await this.resolveEntry(entry, baseUrl));
+      } catch (error) {
+        console.error(`[PluginManager] 加载插件 ${entry.id} 失败`, error);
+      }
+    }
+  }
+
+  async install(plugin: GamePlugin): Promise<void> {
+    if (this.loaded.has(plugin.id)) {
+      console.warn(`[PluginManager] 插件 ${plugin.id} 已加载，跳过`);
+      return;
+    }
+
+    const disposers: Array<() => void> = [];
+    const loaded: LoadedPlugin = { plugin, api: this.createAPI(plugin.id, disposers), disposers };
+    this.loaded.set(plugin.id, loaded);
+
+    try {
+      await plugin.setup(loaded.api);
+      console.log(`[PluginManager] 插件 ${plugin.id}${plugin.version ? ` v${plugin.version}` : ""} 已加载`);
+    } catch (error) {
+      this.unload(plugin.id);
+      throw error;
+    }
+  }
+
+  notifyWorldReady(): void {
+    for (const { plugin, api } of this.loaded.values()) {
+      try {
+        plugin.onWorldReady?.(api);
+      } catch (error) {
+        console.error(`[PluginManager] 插件 ${plugin.id} 的 onWorldReady 出错`, error);
+      }
+    }
+  }
+
+  unload(id: string): void {
+    const loaded = this.loaded.get(id);
+    if (!loaded) return;
+    // 倒序撤销，后注册的内容（如依赖前一个系统的系统）先移除
+    [...loaded.disposers].reverse().forEach((dispose) => dispose());
+    loaded.plugin.teardown?.();
+    this.loaded.delete(id);
+  }
+
+  unloadAll(): void {
+    [...this.loaded.keys()].reverse().forEach((id) => this.unload(id));
+  }
+
+  getLoadedPlugins(): string[] {
+    return [...this.loaded.keys()];
+  }
+
+  private async resolveEntry(entry: PluginManifestEntry, baseUrl: URL): Promise<GamePlugin> {
+    let module: GamePlugin | null = null;
+    if (entry.entry) {
+      const imported = await import(/* @vite-ignore */ new URL(entry.entry, baseUrl).href);
+      module = (imported.default ?? imported.plugin) as GamePlugin;
+      if (!module || typeof module.setup !== "function") {
+        throw new Error(`Plugin module ${entry.entry} does not export a plugin with setup()`);
+      }
+    }
+
+    // 清单里的数据内容与模块一起注册
+    return {
+      id: entry.id,
+      version: module?.version,
+      setup: async (api) => {
+        Object.entries(entry.biomes ?? {}).forEach(([biome, properties]) => api.registerBiome(biome, properties));
+        (entry.spawns ?? []).forEach((spawn) => api.addSpawn(spawn));
+        Object.entries(entry.biomeSpawns ?? {}).forEach(([biome, entries]) => api.addBiomeSpawns(biome, entries));
+        if (entry.locations) {
+          Object.entries(parseLocations(entry.locations, `plugin ${entry.id}`)).forEach(([name, position]) => api.registerLocation(name, position));
+        }
+        if (entry.factions) {
+          Object.entries(parseFactions(entry.factions, `plugin ${entry.id}`)).forEach(([id, faction]) => api.registerFaction(id, faction));
+        }
+        if (entry.animations) {
+          Object.entries(parseAnimationSets(entry.animations, `plugin ${entry.id}`)).forEach(([id, set]) => api.registerAnimationSet(id, set));
+        }
+        if (entry.npcs) {
+          parseNPCArchetypes(entry.npcs, `plugin ${entry.id}`).forEach((archetype) => api.registerNPCArchetype(archetype));
+        }
+        await module?.setup(api);
+      },
+      onWorldReady: module?.onWorldReady?.bind(module),
+      teardown: module?.teardown?.bind(module),
+    };
+  }
+
+  private createAPI(pluginId: string, disposers: Array<() => void>): PluginAPI {
+    const engine = this.engine;
+    return {
+      pluginId,
+      engine,
+      registerSystem: (system) => {
+        const systems = engine.getSystemManager();
+        systems.register(system);
+        disposers.push(() => systems.unregister(system.name));
+      },
+      registerBiome: (biome, properties) => {
+        disposers.push(engine.getWorldManager().getBiomeSystem().register(biome, properties));
+      },
+      registerEntityType: (type, factory) => {
+        disposers.push(engine.getEntityManager().registerEntityType(type, factory));
+      },
+      addSpawn: (spawn) => {
+        disposers.push(engine.getEntityManager().addDefaultSpawn(spawn));
+      },
+      addBiomeSpawns: (biome, entries) => {
+        disposers.push(engine.getSpawnSystem().addSpawnEntries(biome, entries));
+      },
+      registerNPCArchetype: (archetype) => {
+        disposers.push(registerNPCArchetype(archetype));
+        disposers.push(engine.getEntityManager().addDefaultSpawn({ type: "npc", position: { ...archetype.home }, data: { archetype: archetype.id } }));
+      },
+      registerLocation: (name, position) => {
+        disposers.push(engine.getWorldManager().registerLocation(name, position));
+      },
+      registerFaction: (id, faction) => {
+        disposers.push(registerFaction(id, faction));
+      },
+      registerAnimationSet: (id, set) => {
+        disposers.push(registerAnimationSet(id, set));
+      },
+      registerBehaviorNode: (node) => {
+        const tree = engine.getAIManager().getBehaviorTree();
+        tree.addNode(node);
+        disposers.push(() => tree.removeNode(node.id));
+      },
+      registerCommand: (command) => {
+        disposers.push(engine.getCommands().register(command));
+      },
+      on: (pattern, listener, options) => {
+        disposers.push(engine.getEventBus().on(pattern, listener, options));
+      },
+    };
+  }
+}
+
+function validateManifest(data: unknown): PluginManifest {
+  if (!data || typeof data !== "object" || !Array.isArray((data as PluginManifest).plugins)) {
+    throw new Error("Plugin manifest must contain a plugins array");
+  }
+  const manifest = data as PluginManifest;
+  manifest.plugins.forEach((entry, index) => {
+    if (typeof entry?.id !== "string" || !entry.id) {
+      throw new Error(`Plugin manifest entry ${index} is missing an id`);
+    }
+  });
+  return manifest;
+}
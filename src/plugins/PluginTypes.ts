@@ -0,0 +1,80 @@
+import type { GameEngine } from "@/core/GameEngine";
+import type { ConsoleCommand } from "@/core/CommandRegistry";
+import type { EventListener, EventPattern, ListenerOptions } from "@/core/EventBus";
+import type { GameEvents } from "@/core/GameEvents";
+import type { GameSystem } from "@/core/SystemManager";
+import type { BehaviorNode } from "@/ai/BehaviorTree";
+import type { NPCArchetype } from "@/ai/NPCArchetypes";
+import type { FactionDefinition } from "@/ai/RelationshipSystem";
+import type { AnimationSet } from "@/rendering/AnimationSets";
+import type { DefaultSpawn, EntityFactory } from "@/entities/EntityManager";
+import type { BiomeType, EntityType, Vector2 } from "@/types";
+import type { BiomeProperties } from "@/world/BiomeSystem";
+import type { SpawnEntry } from "@/world/SpawnSystem";
+
+/**
+ * 插件在 setup 中通过该接口注册内容；卸载插件时会撤销这里的全部注册
+ * （系统、群系、实体类型、出生点与生成表、NPC 设定、地点、阵营、动画集、行为节点、命令与事件监听），
+ * 被覆盖的群系、实体类型、NPC 设定、地点、阵营与动画集恢复为原来的内容
+ */
+export interface PluginAPI {
+  readonly pluginId: string;
+  readonly engine: GameEngine;
+  registerSystem(system: GameSystem): void;
+  registerBiome(biome: BiomeType, properties: BiomeProperties): void;
+  registerEntityType(type: EntityType, factory: EntityFactory): void;
+  /** 世界创建时额外生成的实体 */
+  addSpawn(spawn: DefaultSpawn): void;
+  /** 向群系的生成表追加生物，玩家靠近该群系的区块时生成 */
+  addBiomeSpawns(biome: BiomeType, entries: SpawnEntry[]): void;
+  /** 注册 NPC 设定，并在世界创建时于其家中生成该角色 */
+  registerNPCArchetype(archetype: NPCArchetype): void;
+  /** 注册命名地点，NPC 日程与行为目标可以引用 */
+  registerLocation(name: string, position: Vector2): void;
+  /** 注册阵营及其对玩家的初始声望，NPC 设定中的 faction 引用阵营ID */
+  registerFaction(id: string, faction: FactionDefinition): void;
+  /** 注册动画集，实体通过动画集ID（如怪物参数中的 sprite）引用 */
+  registerAnimationSet(id: string, set: AnimationSet): void;
+  registerBehaviorNode(node: BehaviorNode): void;
+  registerCommand(command: ConsoleCommand): void;
+  on<Pattern extends EventPattern<GameEvents>>(
+    pattern: Pattern,
+    listener: EventListener<GameEvents, Pattern>,
+    options?: ListenerOptions,
+  ): void;
+}
+
+export interface GamePlugin {
+  id: string;
+  version?: string;
+  /** 在系统初始化和地图生成之前调用 */
+  setup(api: PluginAPI): void | Promise<void>;
+  /** 默认实体生成完毕、世界可以游玩时调用 */
+  onWorldReady?(api: PluginAPI): void;
+  teardown?(): void;
+}
+
+/**
+ * 清单中的一项：entry 指向导出 GamePlugin 的 ES 模块（相对清单路径），
+ * 纯数据的内容包也可以只写 biomes / spawns / biomeSpawns / npcs / locations / factions / animations
+ */
+export interface PluginManifestEntry {
+  id: string;
+  entry?: string;
+  enabled?: boolean;
+  biomes?: Record<string, BiomeProperties>;
+  spawns?: DefaultSpawn[];
+  biomeSpawns?: Record<string, SpawnEntry[]>;
+  /** NPC 设定，格式与 src/data/npcs 下的数据文件相同 */
+  npcs?: NPCArchetype[];
+  /** 命名地点，格式与 src/data/world/locations.json 相同 */
+  locations?: Record<string, Vector2>;
+  /** 阵营，格式与 src/data/world/factions.json 相同 */
+  factions?: Record<string, FactionDefinition>;
+  /** 动画集，格式与 src/data/animations 下的数据文件相同 */
+  animations?: Record<string, AnimationSet>;
+}
+
+export interface PluginManifest {
+  plugins: PluginManifestEntry[];
+}
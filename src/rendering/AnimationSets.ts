@@ -0,0 +1,141 @@
+import characterAnimations from "@/data/animations/characters.json";
+import { Vector2 } from "@/types";
+
+export type AnimationDirection = "up" | "down" | "left" | "right" | "up_left" | "up_right" | "down_left" | "down_right";
+
+/**
+ * 一段动画。frames 为图集中的帧名；按方向给出时键为方向，
+ * 只给出一侧（如 right）的方向会水平翻转用于另一侧
+ */
+export interface AnimationClip {
+  fps: number;
+  /** 省略时循环播放；一次性动画（攻击、受伤、死亡）播完停在最后一帧 */
+  loop?: boolean;
+  frames: string[] | Partial<Record<AnimationDirection, string[]>>;
+  /** 帧序号到事件名，如 { "1": "hit" }，播放到该帧时发出 animation:frame */
+  events?: Record<string, string>;
+}
+
+/**
+ * 一个实体外观的全部动画，图集为 PixiJS Assets 可加载的 spritesheet JSON。
+ * idle 必须提供，其余动画缺失时用 idle 代替
+ */
+export interface AnimationSet {
+  atlas: string;
+  scale?: number;
+  clips: Record<string, AnimationClip>;
+}
+
+const DIRECTIONS: ReadonlyArray<AnimationDirection> = ["up", "down", "left", "right", "up_left", "up_right", "down_left", "down_right"];
+/** 从 +x 方向开始每 45° 一个方向（y 轴向下） */
+const OCTANTS: ReadonlyArray<AnimationDirection> = ["right", "down_right", "down", "down_left", "left", "up_left", "up", "up_right"];
+const MIRRORED: Partial<Record<AnimationDirection, AnimationDirection>> = {
+  left: "right",
+  right: "left",
+  up_left: "up_right",
+  up_right: "up_left",
+  down_left: "down_right",
+  down_right: "down_left",
+};
+
+const animationSets = new Map<string, AnimationSet>(
+  Object.entries(parseAnimationSets(characterAnimations, "data/animations/characters.json")),
+);
+
+/**
+ * 注册或覆盖动画集，插件与数据包可以借此为新的实体提供外观；返回的函数撤销本次注册并恢复被覆盖的动画集
+ */
+export function registerAnimationSet(id: string, set: AnimationSet): () => void {
+  const previous = animationSets.get(id);
+  animationSets.set(id, set);
+  return () => {
+    if (animationSets.get(id) !== set) return;
+    if (previous) {
+      animationSets.set(id, previous);
+    } else {
+      animationSets.delete(id);
+    }
+  };
+}
+
+export function getAnimationSet(id: string): AnimationSet | undefined {
+  return animationSets.get(id);
+}
+
+/**
+ * 校验 JSON 数据中的动画集（ID 到动画集），列出全部问题后一次性报错
+ */
+export function parseAnimationSets(data: unknown, source: string): Record<string, AnimationSet> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Invalid animation sets in ${source}: expected an object of id to animation set`);
+  }
+
+  const errors: string[] = [];
+  for (const [id, raw] of Object.entries(data)) {
+    if (typeof raw?.atlas !== "string" || raw.atlas === "") {
+      errors.push(`${id}: atlas must be a non-empty string`);
+    }
+    if (raw?.scale !== undefined && !(raw.scale > 0)) {
+      errors.push(`${id}: scale must be a positive number`);
+    }
+    if (!raw?.clips?.idle) {
+      errors.push(`${id}: clips.idle is required`);
+    }
+    for (const [name, clip] of Object.entries<Partial<AnimationClip>>(raw?.clips ?? {})) {
+      const label = `${id}.clips.${name}`;
+      if (!(typeof clip?.fps === "number" && clip.fps > 0)) {
+        errors.push(`${label}: fps must be a positive number`);
+      }
+      const frameLists = Array.isArray(clip?.frames) ? [clip.frames] : Object.entries(clip?.frames ?? {}).map(([direction, frames]) => {
+        if (!DIRECTIONS.includes(direction as AnimationDirection)) {
+          errors.push(`${label}: unknown direction ${direction}, expected one of ${DIRECTIONS.join(", ")}`);
+        }
+        return frames;
+      });
+      if (frameLists.length === 0 || frameLists.some((frames) => !Array.isArray(frames) || frames.length === 0)) {
+        errors.push(`${label}: frames must be a non-empty list of frame names or a map of direction to such lists`);
+      }
+      for (const frame of Object.keys(clip?.events ?? {})) {
+        if (!/^\d+$/.test(frame)) {
+          errors.push(`${label}: event key ${frame} must be a frame index`);
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid animation sets in ${source}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return data as Record<string, AnimationSet>;
+}
+
+/**
+ * 向量对应的八方向
+ */
+export function directionFromVector(vector: Vector2): AnimationDirection {
+  const octant = Math.round(Math.atan2(vector.y, vector.x) / (Math.PI / 4));
+  return OCTANTS[(octant + 8) % 8];
+}
+
+/**
+ * 选出 clip 中用于 direction 的帧；mirrored 为 true 时需要水平翻转。
+ * 只有上下左右四个方向的动画把斜向归到左右
+ */
+export function resolveClipFrames(clip: AnimationClip, direction: AnimationDirection): { frames: string[]; mirrored: boolean } {
+  if (Array.isArray(clip.frames)) {
+    return { frames: clip.frames, mirrored: false };
+  }
+
+  const byDirection = clip.frames;
+  const eightWay = Object.keys(byDirection).some((key) => key.includes("_"));
+  const wanted = eightWay ? direction : (direction.replace(/^(up|down)_/, "") as AnimationDirection);
+
+  const exact = byDirection[wanted];
+  if (exact) return { frames: exact, mirrored: false };
+  const mirror = MIRRORED[wanted];
+  const mirroredFrames = mirror ? byDirection[mirror] : undefined;
+  if (mirroredFrames) return { frames: mirroredFrames, mirrored: true };
+
+  const fallback = byDirection.down ?? Object.values(byDirection).find((frames) => frames && frames.length > 0) ?? [];
+  return { frames: fallback, mirrored: false };
+}
@@ -0,0 +1,208 @@
+import { Assets, Sprite, Spritesheet, Texture } from "pixi.js";
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { AnimationComponent } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { Vector2 } from "@/types";
+import { AnimationSet, directionFromVector, getAnimationSet, resolveClipFrames } from "./AnimationSets";
+
+/** 速度超过该值时播放行走动画 */
+const WALK_SPEED_THRESHOLD = 0.3;
+
+interface AnimatedView {
+  sprite: Sprite;
+  sheet: Spritesheet;
+}
+
+/**
+ * 按速度与状态为带 animation 组件的实体选择动画（死亡、一次性的攻击与受伤、睡觉、行走、待机），
+ * 推进帧并在带事件的帧发出 animation:frame。
+ * 帧的推进与渲染无关，无头模式下同样发出帧事件；挂载到舞台的实体在图集加载后改用精灵显示，
+ * 图集或帧缺失时保留实体自带的占位图形
+ */
+export class AnimationSystem implements GameSystem {
+  public readonly name = "animation";
+  public readonly priority = 20;
+  public readonly dependsOn = ["entities"];
+
+  /** 图集 URL 到加载结果，加载失败为 null */
+  private readonly atlases = new Map<string, Spritesheet | null>();
+  private readonly loading = new Set<string>();
+  private readonly views = new Map<string, AnimatedView>();
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  initialize(): void {
+    this.eventBus.on("combat:attack", ({ attacker, direction }) => {
+      this.play(attacker, "attack", direction);
+    });
+
+    this.eventBus.on("projectile:fired", ({ owner, direction }) => {
+      this.play(owner, "attack", direction);
+    });
+
+    this.eventBus.on("combat:damage", ({ target }) => {
+      this.play(target, "hurt");
+    });
+
+    this.eventBus.on("entity:removed", ({ entityId }) => {
+      this.views.delete(entityId);
+    });
+  }
+
+  update(delta: number): void {
+    for (const entity of this.entities.query("animation", "physicsBody")) {
+      const animation = entity.requireComponent("animation");
+      const set = getAnimationSet(animation.set);
+      if (!set) continue;
+
+      this.selectClip(entity, animation, set);
+      this.advance(entity, animation, set, delta);
+      this.draw(entity, animation, set);
+    }
+  }
+
+  /**
+   * 播放一次性动画，播完后回到移动动画；动画集中没有该动画时忽略
+   */
+  play(entity: BaseEntity, clip: string, direction?: Vector2): void {
+    const animation = entity.getComponent("animation");
+    if (!animation || !getAnimationSet(animation.set)?.clips[clip]) return;
+
+    animation.oneShot = clip;
+    if (direction && (direction.x !== 0 || direction.y !== 0)) {
+      animation.direction = directionFromVector(direction);
+    }
+    this.setClip(entity, animation, clip, true);
+  }
+
+  private selectClip(entity: BaseEntity, animation: AnimationComponent, set: AnimationSet): void {
+    const { velocity } = entity.getBody();
+    const speed = Math.hypot(velocity.x, velocity.y);
+    const facing = speed > WALK_SPEED_THRESHOLD ? velocity : entity.getComponent("npcAction")?.facing;
+    if (facing && (facing.x !== 0 || facing.y !== 0) && !animation.oneShot) {
+      animation.direction = directionFromVector(facing);
+    }
+
+    let clip: string;
+    if ((entity.getComponent("health")?.current ?? 1) <= 0) {
+      clip = "die";
+    } else if (animation.oneShot && !(animation.clip === animation.oneShot && animation.finished)) {
+      clip = animation.oneShot;
+    } else if (entity.getComponent("npcAction")?.activity === "sleeping") {
+      animation.oneShot = null;
+      clip = "sleep";
+    } else {
+      animation.oneShot = null;
+      clip = speed > WALK_SPEED_THRESHOLD ? "walk" : "idle";
+    }
+    this.setClip(entity, animation, set.clips[clip] ? clip : "idle");
+  }
+
+  private setClip(entity: BaseEntity, animation: AnimationComponent, clip: string, restart = false): void {
+    if (animation.clip === clip && !restart) return;
+    animation.clip = clip;
+    animation.frame = 0;
+    animation.frameTime = 0;
+    animation.finished = false;
+    this.emitFrameEvent(entity, animation);
+  }
+
+  private advance(entity: BaseEntity, animation: AnimationComponent, set: AnimationSet, delta: number): void {
+    const clip = set.clips[animation.clip];
+    if (!clip || animation.finished) return;
+
+    const frameCount = resolveClipFrames(clip, animation.direction).frames.length;
+    const frameDuration = 1000 / clip.fps;
+    animation.frameTime += delta;
+    while (animation.frameTime >= frameDuration) {
+      animation.frameTime -= frameDuration;
+      if (animation.frame + 1 < frameCount) {
+        animation.frame += 1;
+      } else if (clip.loop !== false) {
+        animation.frame = 0;
+      } else {
+        animation.finished = true;
+        return;
+      }
+      this.emitFrameEvent(entity, animation);
+    }
+  }
+
+  private emitFrameEvent(entity: BaseEntity, animation: AnimationComponent): void {
+    const clip = getAnimationSet(animation.set)?.clips[animation.clip];
+    const event = clip?.events?.[String(animation.frame)];
+    if (event) {
+      this.eventBus.emit("animation:frame", { entity, clip: animation.clip, frame: animation.frame, event });
+    }
+  }
+
+  /**
+   * 更新已挂载实体的精灵；图集未就绪或缺帧时显示占位图形
+   */
+  private draw(entity: BaseEntity, animation: AnimationComponent, set: AnimationSet): void {
+    const renderable = entity.getComponent("renderable");
+    if (!renderable?.mounted || !renderable.view.visible) return;
+
+    const view = this.views.get(entity.id) ?? this.createView(entity, set);
+    const texture = view && this.findTexture(view.sheet, set, animation);
+    if (renderable.placeholder) renderable.placeholder.visible = !texture;
+    if (!view) return;
+
+    view.sprite.visible = Boolean(texture);
+    if (!texture) return;
+    const { mirrored } = resolveClipFrames(set.clips[animation.clip], animation.direction);
+    const scale = set.scale ?? 1;
+    view.sprite.texture = texture;
+    view.sprite.scale.set(mirrored ? -scale : scale, scale);
+  }
+
+  private createView(entity: BaseEntity, set: AnimationSet): AnimatedView | null {
+    const sheet = this.loadAtlas(set.atlas);
+    if (!sheet) return null;
+
+    const sprite = new Sprite();
+    sprite.anchor.set(0.5);
+    // 放在最底层，名字等标签仍然显示在精灵之上
+    entity.getSprite().addChildAt(sprite, 0);
+    const view = { sprite, sheet };
+    this.views.set(entity.id, view);
+    return view;
+  }
+
+  /**
+   * 当前帧的纹理；当前动画缺帧时退回待机动画，仍然缺失时返回 null
+   */
+  private findTexture(sheet: Spritesheet, set: AnimationSet, animation: AnimationComponent): Texture | null {
+    for (const name of [animation.clip, "idle"]) {
+      const clip = set.clips[name];
+      if (!clip) continue;
+      const { frames } = resolveClipFrames(clip, animation.direction);
+      const texture = sheet.textures[frames[animation.frame % frames.length]];
+      if (texture) return texture;
+    }
+    return null;
+  }
+
+  /**
+   * 已加载的图集；首次请求时开始异步加载并返回 null
+   */
+  private loadAtlas(url: string): Spritesheet | null {
+    const loaded = this.atlases.get(url);
+    if (loaded !== undefined || this.loading.has(url)) return loaded ?? null;
+
+    this.loading.add(url);
+    Assets.load<Spritesheet>(url)
+      .then((sheet) => this.atlases.set(url, sheet?.textures ? sheet : null))
+      .catch((error) => {
+        console.warn(`[AnimationSystem] 图集 ${url} 加载失败，使用占位图形`, error);
+        this.atlases.set(url, null);
+      })
+      .finally(() => this.loading.delete(url));
+    return null;
+  }
+}
@@ -1,5 +1,9 @@
 import { Container } from "pixi.js";
 import { Vector2 } from "@/types";
+import { clamp } from "@/utils/MathUtils";
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 2.5;
 
 export class CameraSystem {
   private target?: Container;
@@ -7,6 +11,7 @@ export class CameraSystem {
   private viewportHeight = 720;
   private smoothing = 0.3; // 增加平滑度从0.1到0.3
   private isFirstUpdate = true; // 添加标志来处理首次更新
+  private zoom = 1;
 
   constructor(private readonly stage: Container) {}
 
@@ -30,6 +35,21 @@ export class CameraSystem {
     this.smoothing = value;
   }
 
+  setZoom(value: number): void {
+    this.zoom = clamp(value, MIN_ZOOM, MAX_ZOOM);
+  }
+
+  /**
+   * 按倍率缩放（滚轮或双指缩放）
+   */
+  zoomBy(factor: number): void {
+    this.setZoom(this.zoom * factor);
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
   update(): void {
     if (!this.target) {
       console.log(`[CameraSystem] 没有跟随目标`);
@@ -42,9 +62,11 @@ export class CameraSystem {
     const centerX = this.viewportWidth / 2;
     const centerY = this.viewportHeight / 2;
 
-    // 设置舞台位置，使目标在屏幕中心
-    const stageX = centerX - targetX;
-    const stageY = centerY - targetY;
+    this.stage.scale.set(this.zoom);
+
+    // 设置舞台位置，使目标在屏幕中心（考虑缩放）
+    const stageX = centerX - targetX * this.zoom;
+    const stageY = centerY - targetY * this.zoom;
 
     // 首次更新时立即跳转到正确位置，避免平滑跟随的延迟
     if (this.isFirstUpdate) {
@@ -68,10 +90,39 @@ export class CameraSystem {
     }
   }
 
+  /**
+   * 将画布坐标转换为世界坐标，与 update 中设置的舞台位移和缩放互逆
+   */
+  screenToWorld(screen: Vector2): Vector2 {
+    const { position, scale, pivot } = this.stage;
+    return {
+      x: (screen.x - position.x) / scale.x + pivot.x,
+      y: (screen.y - position.y) / scale.y + pivot.y,
+    };
+  }
+
+  /**
+   * 当前视口覆盖的世界矩形，margin 为四周额外扩展的世界距离
+   */
+  getViewBounds(margin = 0): { x: number; y: number; width: number; height: number } {
+    const topLeft = this.screenToWorld({ x: 0, y: 0 });
+    const bottomRight = this.screenToWorld({ x: this.viewportWidth, y: this.viewportHeight });
+    return {
+      x: topLeft.x - margin,
+      y: topLeft.y - margin,
+      width: bottomRight.x - topLeft.x + margin * 2,
+      height: bottomRight.y - topLeft.y + margin * 2,
+    };
+  }
+
+  /**
+   * 将世界坐标转换为画布坐标
+   */
   worldToScreen(world: Vector2): Vector2 {
+    const { position, scale, pivot } = this.stage;
     return {
-      x: world.x - this.stage.pivot.x,
-      y: world.y - this.stage.pivot.y,
+      x: (world.x - pivot.x) * scale.x + position.x,
+      y: (world.y - pivot.y) * scale.y + position.y,
     };
   }
 }
@@ -1,4 +1,4 @@
-import { Application, Container } from "pixi.js";
+import { Application, Assets, Container } from "pixi.js";
 import { GameSystem } from "@/core/SystemManager";
 import { CameraSystem } from "./CameraSystem";
 import { ParticleSystem } from "./ParticleSystem";
@@ -11,9 +11,17 @@ export interface RenderingOptions {
   background?: number;
 }
 
+export interface DisplayObjectStats {
+  /** 舞台下全部显示对象（含地形） */
+  stage: number;
+  terrain: number;
+}
+
 export class RenderingSystem implements GameSystem {
   public readonly name = "rendering";
   public readonly priority = 100;
+  // 在实体同步图形之后更新相机，避免跟随上一帧的位置
+  public readonly dependsOn = ["entities"];
 
   private app!: Application;
   private stage!: Container;
@@ -68,6 +76,17 @@ export class RenderingSystem implements GameSystem {
     }
   }
 
+  /**
+   * 预载纹理等资源，onProgress 以 0-1 报告进度
+   */
+  async loadAssets(urls: string[], onProgress?: (progress: number) => void): Promise<void> {
+    if (urls.length === 0) {
+      onProgress?.(1);
+      return;
+    }
+    await Assets.load(urls, onProgress);
+  }
+
   getApplication(): Application {
     return this.app;
   }
@@ -88,6 +107,13 @@ export class RenderingSystem implements GameSystem {
     return this.terrain;
   }
 
+  countDisplayObjects(): DisplayObjectStats {
+    return {
+      stage: countDescendants(this.stage),
+      terrain: countDescendants(this.terrain.getContainer()),
+    };
+  }
+
   destroy(): void {
     this.resizeHandler && window.removeEventListener("resize", this.resizeHandler);
     this.terrain.destroy();
@@ -104,3 +130,7 @@ export class RenderingSystem implements GameSystem {
     this.stage.position.set(width / 2, height / 2);
   }
 }
+
+function countDescendants(container: Container): number {
+  return container.children.reduce((count, child) => count + 1 + countDescendants(child), 0);
+}
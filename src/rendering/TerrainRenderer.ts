@@ -1,9 +1,11 @@
 import { Container, Graphics } from "pixi.js";
 import { BiomeType, WorldChunk } from "@/types";
+import { BiomeSystem } from "@/world/BiomeSystem";
 
 export class TerrainRenderer {
   private readonly terrainContainer: Container;
   private readonly renderedChunks = new Map<string, Graphics>();
+  private biomes: BiomeSystem | null = null;
 
   constructor(private readonly stage: Container) {
     console.log(`[TerrainRenderer] 构造函数被调用`);
@@ -13,7 +15,14 @@ export class TerrainRenderer {
     console.log(`[TerrainRenderer] 初始化完成，terrainContainer 已添加到 stage`);
   }
 
-  renderChunk(chunk: WorldChunk, chunkSize: number = 64): void {
+  /**
+   * 设置群系数据来源，地形颜色取自 BiomeProperties
+   */
+  setBiomeSystem(biomes: BiomeSystem): void {
+    this.biomes = biomes;
+  }
+
+  renderChunk(chunk: WorldChunk, chunkSize: number): void {
     // 避免重复渲染
     if (this.renderedChunks.has(chunk.id)) {
       return; // 减少日志输出以提高性能
@@ -41,7 +50,7 @@ export class TerrainRenderer {
   /**
    * 批量渲染多个区块，提高性能
    */
-  renderChunks(chunks: WorldChunk[], chunkSize: number = 64): void {
+  renderChunks(chunks: WorldChunk[], chunkSize: number): void {
     console.log(`[TerrainRenderer] 开始批量渲染 ${chunks.length} 个区块`);
     const startTime = performance.now();
     
@@ -67,23 +76,12 @@ export class TerrainRenderer {
   }
 
   private getBiomeColor(biome: BiomeType): number {
-    switch (biome) {
-      case "forest":
-        return 0x2d5016; // 深绿色
-      case "desert":
-        return 0xc2b280; // 沙色
-      case "tundra":
-        return 0xe8f4f8; // 浅蓝白色
-      case "swamp":
-        return 0x4a5d23; // 暗绿色
-      case "plains":
-        return 0x7cb342; // 草绿色
-      default:
-        return 0x666666; // 灰色
-    }
+    return this.biomes?.getProperties(biome).terrainColor ?? 0x666666; // 未设置群系来源时显示为灰色
   }
 
   private addBiomeDetails(graphics: Graphics, biome: BiomeType, chunkSize: number): void {
+    const detailColors = this.biomes?.getProperties(biome).detailColors ?? [0x888888];
+
     // 添加一些随机的细节点来增加视觉效果
     const detailCount = Math.floor(Math.random() * 8) + 4;
     
@@ -91,27 +89,7 @@ export class TerrainRenderer {
       const x = Math.random() * chunkSize;
       const y = Math.random() * chunkSize;
       const size = Math.random() * 3 + 1;
-      
-      let detailColor: number;
-      switch (biome) {
-        case "forest":
-          detailColor = Math.random() > 0.5 ? 0x1b3d0c : 0x4a7c59; // 深绿和中绿
-          break;
-        case "desert":
-          detailColor = Math.random() > 0.5 ? 0xd4c5a9 : 0xa0956b; // 浅沙色和深沙色
-          break;
-        case "tundra":
-          detailColor = 0xffffff; // 白色雪点
-          break;
-        case "swamp":
-          detailColor = Math.random() > 0.5 ? 0x2d3d0f : 0x6b7c32; // 深绿和泥色
-          break;
-        case "plains":
-          detailColor = Math.random() > 0.5 ? 0x8bc34a : 0x689f38; // 浅绿和深绿
-          break;
-        default:
-          detailColor = 0x888888;
-      }
+      const detailColor = detailColors[Math.floor(Math.random() * detailColors.length)];
       
       graphics.circle(x, y, size);
       graphics.fill(detailColor);
@@ -126,6 +104,10 @@ export class TerrainRenderer {
     this.terrainContainer.removeChildren();
   }
 
+  getContainer(): Container {
+    return this.terrainContainer;
+  }
+
   destroy(): void {
     this.clear();
     this.stage.removeChild(this.terrainContainer);
@@ -0,0 +1,69 @@
+import { EventBus } from "@/core/EventBus";
+import { InputSource } from "@/core/InputManager";
+import { EntityManager } from "@/entities/EntityManager";
+import { PhysicsEngine } from "@/physics/PhysicsEngine";
+import { REPLAY_VERSION, ReplayDecision, ReplayFile, ReplayFrame } from "./ReplayTypes";
+
+/**
+ * 录制每帧的输入状态与 AI 决策。必须从引擎启动时开始录制，
+ * 否则随机数流的状态无法从种子复现
+ */
+export class InputRecorder {
+  private frames: ReplayFrame[] = [];
+  private decisions: ReplayDecision[] = [];
+  private unsubscribe?: () => void;
+
+  constructor(
+    private readonly input: InputSource,
+    private readonly physics: PhysicsEngine,
+    private readonly entities: EntityManager,
+    private readonly eventBus: EventBus,
+    private readonly seed: number,
+  ) {}
+
+  start(): void {
+    this.frames = [];
+    this.decisions = [];
+    this.unsubscribe = this.eventBus.on("npc:behavior", ({ npc, decision }) => {
+      const entityIndex = this.entities.listEntities().indexOf(npc);
+      if (entityIndex === -1) return;
+      // 决策在第 N 帧更新期间或其后异步到达时，回放时统一在第 N 帧结束后注入
+      this.decisions.push({ frame: this.frames.length - 1, entityIndex, decision: { ...decision } });
+    });
+  }
+
+  /**
+   * 在每帧调用 updateAll 之前记录输入
+   */
+  captureFrame(delta: number): void {
+    if (!this.unsubscribe) return;
+
+    const state = this.input.getInputState();
+    const keys = [...state.keys.entries()].filter(([, active]) => active).map(([key]) => key);
+    this.frames.push({
+      delta,
+      step: this.physics.getStepCount(),
+      keys,
+      mouse: { ...state.mouse },
+      mouseTarget: state.mouseTarget ? { ...state.mouseTarget } : null,
+      movement: { ...state.movement },
+      aim: state.aim ? { ...state.aim } : null,
+    });
+  }
+
+  isRecording(): boolean {
+    return Boolean(this.unsubscribe);
+  }
+
+  stop(): ReplayFile {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      recordedAt: Date.now(),
+      frames: this.frames,
+      decisions: this.decisions,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { AIManager } from "@/ai/AIManager";
+import { EventBus } from "@/core/EventBus";
+import { EntityManager } from "@/entities/EntityManager";
+import { PhysicsEngine } from "@/physics/PhysicsEngine";
+import { REPLAY_VERSION, ReplayFile } from "./ReplayTypes";
+import { ScriptedInputSource } from "./ScriptedInputSource";
+
+export const parseReplay = (raw: string): ReplayFile => {
+  const replay = JSON.parse(raw) as ReplayFile;
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(replay.version)}`);
+  }
+  if (!Array.isArray(replay.frames) || !Array.isArray(replay.decisions)) {
+    throw new Error("Replay file is missing frames or decisions");
+  }
+  return replay;
+};
+
+/**
+ * 逐帧回放录制文件：提供录制时的时间增量与输入，并在对应帧注入 AI 决策
+ */
+export class ReplayPlayer {
+  private frameIndex = 0;
+  private decisionIndex = 0;
+  private desyncReported = false;
+
+  constructor(
+    private readonly replay: ReplayFile,
+    private readonly input: ScriptedInputSource,
+    private readonly physics: PhysicsEngine,
+    private readonly entities: EntityManager,
+    private readonly ai: AIManager,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  /**
+   * 准备下一帧，返回应传给 updateAll 的时间增量；回放结束时返回 null
+   */
+  beginFrame(): number | null {
+    if (this.isFinished()) return null;
+
+    if (this.frameIndex === 0) {
+      this.applyDecisions(-1);
+    }
+
+    const frame = this.replay.frames[this.frameIndex];
+    if (!this.desyncReported && frame.step !== this.physics.getStepCount()) {
+      console.warn(
+        `[ReplayPlayer] 第 ${this.frameIndex} 帧物理步数不一致: 录制 ${frame.step}，当前 ${this.physics.getStepCount()}`,
+      );
+      this.desyncReported = true;
+    }
+
+    this.input.applyFrame(frame);
+    return frame.delta;
+  }
+
+  endFrame(): void {
+    this.applyDecisions(this.frameIndex);
+    this.frameIndex += 1;
+
+    if (this.isFinished()) {
+      console.log(`[ReplayPlayer] 回放完成，共 ${this.replay.frames.length} 帧`);
+      this.eventBus.emit("replay:finished", { frames: this.replay.frames.length });
+    }
+  }
+
+  isFinished(): boolean {
+    return this.frameIndex >= this.replay.frames.length;
+  }
+
+  getProgress(): number {
+    return this.replay.frames.length === 0 ? 1 : this.frameIndex / this.replay.frames.length;
+  }
+
+  private applyDecisions(frame: number): void {
+    const { decisions } = this.replay;
+    while (this.decisionIndex < decisions.length && decisions[this.decisionIndex].frame <= frame) {
+      const { entityIndex, decision } = decisions[this.decisionIndex];
+      const entity = this.entities.listEntities()[entityIndex];
+      if (entity) {
+        this.ai.applyDecision(entity.id, decision);
+      }
+      this.decisionIndex += 1;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { KeyBinding, MouseState } from "@/core/InputManager";
+import { NPCBehaviorDecision, Vector2 } from "@/types";
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayFrame {
+  /** 本帧传入 SystemManager.updateAll 的时间增量 */
+  delta: number;
+  /** 本帧开始时 PhysicsEngine 已执行的固定步数 */
+  step: number;
+  keys: KeyBinding[];
+  mouse: MouseState;
+  mouseTarget: { x: number; y: number } | null;
+  /** 早期录制没有该字段，回放时由 keys 推算 */
+  movement?: Vector2;
+  /** 光标的世界坐标；早期录制没有该字段，回放时不能用右键瞄准 */
+  aim?: Vector2 | null;
+}
+
+export interface ReplayDecision {
+  frame: number;
+  /** 实体在 EntityManager 中的插入序号，实体ID在同一页面内不可复用 */
+  entityIndex: number;
+  decision: NPCBehaviorDecision;
+}
+
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  recordedAt: number;
+  frames: ReplayFrame[];
+  decisions: ReplayDecision[];
+}
@@ -0,0 +1,65 @@
+import { digitalMovement, InputSource, InputState, KeyBinding, MouseState } from "@/core/InputManager";
+import { Vector2 } from "@/types";
+import { ReplayFrame } from "./ReplayTypes";
+
+/**
+ * 按帧回放录制输入的输入源
+ */
+export class ScriptedInputSource implements InputSource {
+  private keys = new Set<KeyBinding>();
+  private mouse: MouseState = {
+    x: 0,
+    y: 0,
+    leftButton: false,
+    rightButton: false,
+    middleButton: false,
+    wheelDelta: 0,
+  };
+  private mouseTarget: { x: number; y: number } | null = null;
+  private movement: Vector2 = { x: 0, y: 0 };
+  private aim: Vector2 | null = null;
+
+  applyFrame(frame: ReplayFrame): void {
+    this.keys = new Set(frame.keys);
+    this.mouse = { ...frame.mouse };
+    this.mouseTarget = frame.mouseTarget ? { ...frame.mouseTarget } : null;
+    this.movement = frame.movement ? { ...frame.movement } : digitalMovement((key) => this.keys.has(key));
+    this.aim = frame.aim ? { ...frame.aim } : null;
+  }
+
+  isActive(binding: KeyBinding): boolean {
+    return this.keys.has(binding);
+  }
+
+  getMouseState(): MouseState {
+    return { ...this.mouse };
+  }
+
+  getMouseTarget(): { x: number; y: number } | null {
+    return this.mouseTarget;
+  }
+
+  getMovementVector(): Vector2 {
+    return { ...this.movement };
+  }
+
+  clearMouseTarget(): void {
+    this.mouseTarget = null;
+  }
+
+  getInputState(): InputState {
+    const keys = new Map<KeyBinding, boolean>();
+    this.keys.forEach((key) => keys.set(key, true));
+    return {
+      keys,
+      mouse: { ...this.mouse },
+      mouseTarget: this.mouseTarget,
+      aim: this.aim,
+      movement: this.getMovementVector(),
+    };
+  }
+
+  resetWheelDelta(): void {
+    this.mouse.wheelDelta = 0;
+  }
+}
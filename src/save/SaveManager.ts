@@ -0,0 +1,125 @@
+import { AIManager } from "@/ai/AIManager";
+import { RelationshipSystem } from "@/ai/RelationshipSystem";
+import { EventBus } from "@/core/EventBus";
+import { EntityManager } from "@/entities/EntityManager";
+import { Inventory } from "@/ui/Inventory";
+import { downloadJson } from "@/utils/FileUtils";
+import { WorldManager } from "@/world/WorldManager";
+import { CURRENT_SAVE_VERSION, migrateSave } from "./SaveMigrations";
+import { SaveStorage } from "./SaveStorage";
+import { SaveSlotInfo, SaveSnapshot } from "./SaveTypes";
+
+export interface SaveSources {
+  world: WorldManager;
+  entities: EntityManager;
+  ai: AIManager;
+  inventory: Inventory;
+  relationships: RelationshipSystem;
+}
+
+export class SaveManager {
+  constructor(
+    private readonly sources: SaveSources,
+    private readonly storage: SaveStorage,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  capture(): SaveSnapshot {
+    const { world, entities, ai, inventory, relationships } = this.sources;
+    return {
+      version: CURRENT_SAVE_VERSION,
+      savedAt: Date.now(),
+      world: world.serialize(),
+      entities: entities.serialize(),
+      ai: ai.serialize(),
+      inventory: inventory.listItems().map((item) => ({ ...item })),
+      relationships: relationships.serialize(),
+    };
+  }
+
+  restore(snapshot: SaveSnapshot): void {
+    const { world, entities, ai, inventory, relationships } = this.sources;
+    world.restore(snapshot.world);
+    const entityMap = entities.restore(snapshot.entities);
+    ai.restore(snapshot.ai, entityMap);
+
+    inventory.clear();
+    snapshot.inventory.forEach((item) => inventory.addItem(item));
+    relationships.restore(snapshot.relationships);
+
+    console.log(`[SaveManager] 已恢复存档，实体数: ${entityMap.size}`);
+  }
+
+  async save(slot: string): Promise<SaveSlotInfo> {
+    const snapshot = this.capture();
+    await this.storage.write(slot, JSON.stringify(snapshot));
+    this.eventBus.emit("save:written", { slot });
+    return this.describe(slot, snapshot);
+  }
+
+  async load(slot: string): Promise<boolean> {
+    const snapshot = await this.read(slot);
+    if (!snapshot) return false;
+
+    this.restore(snapshot);
+    this.eventBus.emit("save:loaded", { slot });
+    return true;
+  }
+
+  /**
+   * 读取并升级槽位中的存档但不恢复；槽位为空时返回 null
+   */
+  async read(slot: string): Promise<SaveSnapshot | null> {
+    const raw = await this.storage.read(slot);
+    return raw === null ? null : this.parse(raw);
+  }
+
+  async listSlots(): Promise<SaveSlotInfo[]> {
+    const slots = await this.storage.list();
+    const infos: SaveSlotInfo[] = [];
+
+    for (const slot of slots) {
+      const raw = await this.storage.read(slot);
+      if (raw === null) continue;
+      try {
+        infos.push(this.describe(slot, this.parse(raw)));
+      } catch (error) {
+        console.warn(`[SaveManager] 存档槽位 ${slot} 已损坏`, error);
+      }
+    }
+
+    return infos.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async deleteSlot(slot: string): Promise<void> {
+    await this.storage.remove(slot);
+  }
+
+  /**
+   * 将存档下载为 JSON 文件
+   */
+  exportToFile(snapshot: SaveSnapshot = this.capture(), fileName?: string): void {
+    downloadJson(snapshot, fileName ?? `save-day${snapshot.world.dayCount + 1}-${snapshot.savedAt}.json`);
+  }
+
+  /**
+   * 读取导入的存档文件并升级到当前版本；是否立即恢复或写入槽位由调用方决定
+   */
+  async importFromFile(file: Blob): Promise<SaveSnapshot> {
+    return this.parse(await file.text());
+  }
+
+  private parse(raw: string): SaveSnapshot {
+    return migrateSave(JSON.parse(raw));
+  }
+
+  private describe(slot: string, snapshot: SaveSnapshot): SaveSlotInfo {
+    return {
+      slot,
+      version: snapshot.version,
+      savedAt: snapshot.savedAt,
+      dayCount: snapshot.world.dayCount,
+      timeOfDay: snapshot.world.timeOfDay,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { SaveSnapshot } from "./SaveTypes";
+
+export const CURRENT_SAVE_VERSION = 2;
+
+type RawSave = Record<string, unknown>;
+type SaveMigration = (save: RawSave) => RawSave;
+
+/**
+ * 以旧版本号为键，每个迁移把存档升级到下一个版本。
+ * 修改 SaveSnapshot 结构时提升 CURRENT_SAVE_VERSION 并在这里补充迁移。
+ */
+const MIGRATIONS: Record<number, SaveMigration> = {
+  // 版本 2 加入 NPC 关系与阵营声望，旧存档从初始关系开始
+  1: (save) => ({ ...save, relationships: { npcs: {}, factions: {} } }),
+};
+
+export const migrateSave = (raw: unknown): SaveSnapshot => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Save data is not an object");
+  }
+
+  let save = raw as RawSave;
+  let version = save.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Save data has invalid version: ${String(version)}`);
+  }
+
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than supported version ${CURRENT_SAVE_VERSION}`);
+  }
+
+  while (version < CURRENT_SAVE_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered for save version ${version}`);
+    }
+    save = { ...migration(save), version: version + 1 };
+    console.log(`[SaveMigrations] 存档已从版本 ${version} 升级到 ${version + 1}`);
+    version += 1;
+  }
+
+  return save as unknown as SaveSnapshot;
+};
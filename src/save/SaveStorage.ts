@@ -0,0 +1,88 @@
+export interface SaveStorage {
+  list(): Promise<string[]>;
+  read(slot: string): Promise<string | null>;
+  write(slot: string, data: string): Promise<void>;
+  remove(slot: string): Promise<void>;
+}
+
+const KEY_PREFIX = "ai-sandbox:save:";
+
+export class LocalStorageSaveStorage implements SaveStorage {
+  async list(): Promise<string[]> {
+    const slots: string[] = [];
+    for (let i = 0; i < localStorage.length; i += 1) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(KEY_PREFIX)) {
+        slots.push(key.slice(KEY_PREFIX.length));
+      }
+    }
+    return slots.sort();
+  }
+
+  async read(slot: string): Promise<string | null> {
+    return localStorage.getItem(KEY_PREFIX + slot);
+  }
+
+  async write(slot: string, data: string): Promise<void> {
+    localStorage.setItem(KEY_PREFIX + slot, data);
+  }
+
+  async remove(slot: string): Promise<void> {
+    localStorage.removeItem(KEY_PREFIX + slot);
+  }
+}
+
+const DB_NAME = "ai-sandbox-saves";
+const STORE_NAME = "saves";
+
+export class IndexedDBSaveStorage implements SaveStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async list(): Promise<string[]> {
+    const keys = await this.request((store) => store.getAllKeys(), "readonly");
+    return keys.map(String).sort();
+  }
+
+  async read(slot: string): Promise<string | null> {
+    const value = await this.request((store) => store.get(slot), "readonly");
+    return typeof value === "string" ? value : null;
+  }
+
+  async write(slot: string, data: string): Promise<void> {
+    await this.request((store) => store.put(data, slot), "readwrite");
+  }
+
+  async remove(slot: string): Promise<void> {
+    await this.request((store) => store.delete(slot), "readwrite");
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+    mode: IDBTransactionMode,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export type SaveStorageKind = "localStorage" | "indexedDB";
+
+export const createSaveStorage = (kind: SaveStorageKind = "localStorage"): SaveStorage => {
+  return kind === "indexedDB" ? new IndexedDBSaveStorage() : new LocalStorageSaveStorage();
+};
@@ -0,0 +1,23 @@
+import { AIManagerSnapshot } from "@/ai/AIManager";
+import { RelationshipSnapshot } from "@/ai/RelationshipSystem";
+import { EntitySnapshot } from "@/entities/BaseEntity";
+import { InventoryItem } from "@/ui/Inventory";
+import { WorldSnapshot } from "@/world/WorldManager";
+
+export interface SaveSnapshot {
+  version: number;
+  savedAt: number;
+  world: WorldSnapshot;
+  entities: EntitySnapshot[];
+  ai: AIManagerSnapshot;
+  inventory: InventoryItem[];
+  relationships: RelationshipSnapshot;
+}
+
+export interface SaveSlotInfo {
+  slot: string;
+  version: number;
+  savedAt: number;
+  dayCount: number;
+  timeOfDay: number;
+}
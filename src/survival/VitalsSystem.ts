@@ -0,0 +1,242 @@
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { BaseEntity } from "@/entities/BaseEntity";
+import { AttributeName, VitalsComponent } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { clamp } from "@/utils/MathUtils";
+import { WorldManager } from "@/world/WorldManager";
+
+export const BASE_MAX_HEALTH = 100;
+export const BASE_MAX_STAMINA = 100;
+export const ATTRIBUTE_NAMES: AttributeName[] = ["strength", "endurance", "vitality"];
+
+/** 每点属性的加成：力量加伤害，耐力加体力上限，体质加生命上限与回复 */
+const STRENGTH_DAMAGE = 2;
+const ENDURANCE_STAMINA = 10;
+const VITALITY_HEALTH = 10;
+const VITALITY_REGEN = 0.2;
+const ATTRIBUTE_POINTS_PER_LEVEL = 3;
+
+/** 每秒回复的生命，受伤后需要等待 HEALTH_REGEN_DELAY 毫秒 */
+const HEALTH_REGEN = 1;
+const HEALTH_REGEN_DELAY = 5000;
+/** 饥饿或口渴超过该值时不再回复生命 */
+const REGEN_NEED_LIMIT = 80;
+
+/** 冲刺每秒消耗的体力；停止消耗 STAMINA_REGEN_DELAY 毫秒后每秒回复 STAMINA_REGEN */
+const SPRINT_STAMINA = 20;
+const STAMINA_REGEN = 25;
+const STAMINA_REGEN_DELAY = 800;
+/** 体力耗尽后恢复到该值才能再次冲刺 */
+const EXHAUSTION_RECOVERY = 25;
+
+/** 每个游戏小时增加的饥饿与口渴；炎热群系口渴更快 */
+const HUNGER_PER_HOUR = 4;
+const THIRST_PER_HOUR = 5;
+const HEAT_THRESHOLD = 20;
+/** 雨天或湿地中每个游戏小时可以补充的水分 */
+const DRINK_PER_HOUR = 40;
+const WET_HUMIDITY = 0.8;
+/** 饥饿或口渴满值时每个游戏小时损失的生命 */
+const STARVATION_DAMAGE = 30;
+
+const DEFAULT_KILL_EXPERIENCE = 10;
+const BROADCAST_INTERVAL = 200;
+
+export interface ConsumableEffect {
+  hunger?: number;
+  thirst?: number;
+  health?: number;
+  stamina?: number;
+}
+
+const consumables = new Map<string, ConsumableEffect>([
+  ["raw_meat", { hunger: -25, health: 5 }],
+]);
+
+/**
+ * 注册或覆盖可食用物品的效果，负值表示降低饥饿或口渴
+ */
+export function registerConsumable(itemId: string, effect: ConsumableEffect): void {
+  consumables.set(itemId, effect);
+}
+
+/**
+ * 从 level 升到下一级所需的经验
+ */
+export function experienceForLevel(level: number): number {
+  return 100 * level;
+}
+
+/**
+ * 生命回复、体力、饥饿与口渴随游戏时间变化，以及击杀经验与升级。
+ * 只处理带 vitals 组件的实体（目前是玩家）
+ */
+export class VitalsSystem implements GameSystem {
+  public readonly name = "vitals";
+  public readonly priority = 62;
+  public readonly dependsOn = ["world", "entities"];
+
+  private broadcastTimer = 0;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly world: WorldManager,
+    private readonly eventBus: EventBus,
+  ) {}
+
+  initialize(): void {
+    this.eventBus.on("combat:damage", ({ target }) => {
+      const vitals = target.getComponent("vitals");
+      if (vitals) vitals.calmTime = 0;
+    });
+
+    this.eventBus.on("combat:death", ({ entity, killer }) => {
+      if (!killer?.hasComponents("vitals")) return;
+      const experience = entity.getComponent("monsterAI")?.profile.experience ?? DEFAULT_KILL_EXPERIENCE;
+      this.grantExperience(killer, experience);
+    });
+  }
+
+  update(delta: number): void {
+    const seconds = delta / 1000;
+    const hours = this.world.toGameHours(delta);
+
+    for (const entity of this.entities.query("vitals", "health")) {
+      const vitals = entity.requireComponent("vitals");
+      const health = entity.requireComponent("health");
+      if (health.current <= 0) continue;
+
+      this.applyAttributes(entity, vitals);
+      this.updateStamina(vitals, delta, seconds);
+      this.updateNeeds(entity, vitals, hours);
+
+      vitals.calmTime += delta;
+      if (vitals.calmTime >= HEALTH_REGEN_DELAY && vitals.hunger < REGEN_NEED_LIMIT && vitals.thirst < REGEN_NEED_LIMIT) {
+        const regen = HEALTH_REGEN + vitals.attributes.vitality * VITALITY_REGEN;
+        health.current = Math.min(health.max, health.current + regen * seconds);
+      }
+
+      // 饥饿或口渴见底时持续掉血，生命归零即死亡
+      const starving = vitals.hunger >= 100 || vitals.thirst >= 100;
+      if (starving) {
+        health.current = Math.max(0, health.current - STARVATION_DAMAGE * hours);
+        if (health.current === 0) {
+          this.eventBus.emit("vitals:death", { entity, cause: vitals.hunger >= 100 ? "hunger" : "thirst" });
+        }
+      }
+    }
+
+    this.broadcastTimer -= delta;
+    if (this.broadcastTimer <= 0) {
+      this.broadcastTimer = BROADCAST_INTERVAL;
+      for (const entity of this.entities.query("vitals", "health")) {
+        this.eventBus.emit("vitals:changed", {
+          entity,
+          vitals: entity.requireComponent("vitals"),
+          health: entity.requireComponent("health"),
+        });
+      }
+    }
+  }
+
+  /**
+   * 增加经验，足够时连续升级；每级获得属性点并回满生命与体力
+   */
+  grantExperience(entity: BaseEntity, amount: number): void {
+    const vitals = entity.getComponent("vitals");
+    if (!vitals || amount <= 0) return;
+
+    vitals.experience += amount;
+    this.eventBus.emit("vitals:experience", { entity, amount, experience: vitals.experience, level: vitals.level });
+
+    while (vitals.experience >= experienceForLevel(vitals.level)) {
+      vitals.experience -= experienceForLevel(vitals.level);
+      vitals.level += 1;
+      vitals.attributePoints += ATTRIBUTE_POINTS_PER_LEVEL;
+      this.applyAttributes(entity, vitals);
+
+      const health = entity.getComponent("health");
+      if (health) health.current = health.max;
+      vitals.stamina = vitals.maxStamina;
+      vitals.exhausted = false;
+      this.eventBus.emit("vitals:level-up", { entity, level: vitals.level, attributePoints: vitals.attributePoints });
+    }
+  }
+
+  /**
+   * 分配一个属性点；没有剩余属性点时返回 false
+   */
+  spendAttributePoint(entity: BaseEntity, attribute: AttributeName): boolean {
+    const vitals = entity.getComponent("vitals");
+    if (!vitals || vitals.attributePoints <= 0) return false;
+
+    vitals.attributePoints -= 1;
+    // 替换而不是修改属性对象，已生成的快照不受影响
+    vitals.attributes = { ...vitals.attributes, [attribute]: vitals.attributes[attribute] + 1 };
+    this.applyAttributes(entity, vitals);
+    return true;
+  }
+
+  /**
+   * 从背包中使用一个可食用物品；物品不存在或不可食用时返回 false
+   */
+  consume(entity: BaseEntity, itemId: string): boolean {
+    const vitals = entity.getComponent("vitals");
+    const effect = consumables.get(itemId);
+    const inventory = entity.getComponent("inventory")?.inventory;
+    if (!vitals || !effect || !inventory?.removeItem(itemId, 1)) return false;
+
+    vitals.hunger = clamp(vitals.hunger + (effect.hunger ?? 0), 0, 100);
+    vitals.thirst = clamp(vitals.thirst + (effect.thirst ?? 0), 0, 100);
+    vitals.stamina = clamp(vitals.stamina + (effect.stamina ?? 0), 0, vitals.maxStamina);
+    const health = entity.getComponent("health");
+    if (health && effect.health) {
+      health.current = clamp(health.current + effect.health, 0, health.max);
+    }
+    return true;
+  }
+
+  /**
+   * 按属性重新计算上限与伤害加成；每帧调用，读档后无需额外恢复
+   */
+  private applyAttributes(entity: BaseEntity, vitals: VitalsComponent): void {
+    const { strength, endurance, vitality } = vitals.attributes;
+    vitals.maxStamina = BASE_MAX_STAMINA + endurance * ENDURANCE_STAMINA;
+
+    const health = entity.getComponent("health");
+    if (health) health.max = BASE_MAX_HEALTH + vitality * VITALITY_HEALTH;
+
+    const combat = entity.getComponent("combat");
+    if (combat) combat.bonusDamage = strength * STRENGTH_DAMAGE;
+  }
+
+  private updateStamina(vitals: VitalsComponent, delta: number, seconds: number): void {
+    if (vitals.sprinting) {
+      vitals.stamina = Math.max(0, vitals.stamina - SPRINT_STAMINA * seconds);
+      vitals.restTime = 0;
+    } else {
+      vitals.restTime += delta;
+      if (vitals.restTime >= STAMINA_REGEN_DELAY) {
+        vitals.stamina = Math.min(vitals.maxStamina, vitals.stamina + STAMINA_REGEN * seconds);
+      }
+    }
+
+    if (vitals.stamina === 0) {
+      vitals.exhausted = true;
+    } else if (vitals.exhausted && vitals.stamina >= EXHAUSTION_RECOVERY) {
+      vitals.exhausted = false;
+    }
+  }
+
+  private updateNeeds(entity: BaseEntity, vitals: VitalsComponent, hours: number): void {
+    const biome = this.world.getBiomePropertiesAt(entity.getBody().position);
+    const weather = this.world.getWeatherState().type;
+    const heat = 1 + Math.max(0, biome.temperature - HEAT_THRESHOLD) / HEAT_THRESHOLD;
+    const canDrink = weather === "rain" || weather === "storm" || biome.humidity >= WET_HUMIDITY;
+
+    vitals.hunger = Math.min(100, vitals.hunger + HUNGER_PER_HOUR * hours);
+    const thirst = canDrink ? -DRINK_PER_HOUR : THIRST_PER_HOUR * heat;
+    vitals.thirst = clamp(vitals.thirst + thirst * hours, 0, 100);
+  }
+}
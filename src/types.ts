@@ -3,17 +3,25 @@
   y: number;
 }
 
-export type EntityType = "player" | "npc" | "enemy" | "object";
+export type BuiltinEntityType = "player" | "npc" | "enemy" | "object";
+/** 插件可以注册新的实体类型，因此保留任意字符串 */
+export type EntityType = BuiltinEntityType | (string & {});
 
 export interface GameConfig {
-  worldSizeKm: number;
-  chunkSizeMeters: number;
   seed: number;
+  /** 区块边长（像素），区块划分、地形渲染与流式加载共用 */
+  chunkSize: number;
+  /** 地图每边的区块数 */
+  mapSizeChunks: number;
+  /** 未预加载时以玩家为中心加载/渲染的区块半径 */
+  viewDistance: number;
   maxAiCallsPerHour: number;
   enableDebug: boolean;
 }
 
-export type BiomeType = "forest" | "desert" | "tundra" | "swamp" | "plains";
+export type BuiltinBiomeType = "forest" | "desert" | "tundra" | "swamp" | "plains";
+/** 插件可以注册新的生物群系，因此保留任意字符串 */
+export type BiomeType = BuiltinBiomeType | (string & {});
 export type WeatherType = "clear" | "rain" | "storm" | "fog" | "snow";
 
 export interface WorldChunk {
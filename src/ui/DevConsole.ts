@@ -0,0 +1,213 @@
+import { CommandRegistry } from "@/core/CommandRegistry";
+import { InputManager } from "@/core/InputManager";
+
+const TOGGLE_KEY = "Backquote";
+const MAX_HISTORY = 50;
+const MAX_OUTPUT_LINES = 200;
+
+/**
+ * 开发者控制台界面：按 ` 键开关，支持 Tab 补全与上下键翻阅历史。
+ * 打开时压入 menu 输入上下文，避免输入内容触发游戏操作
+ */
+export class DevConsole {
+  private root: HTMLElement | null = null;
+  private output: HTMLElement | null = null;
+  private field: HTMLInputElement | null = null;
+  private readonly history: string[] = [];
+  private historyIndex = -1;
+  private open = false;
+  private readonly listeners: Array<() => void> = [];
+
+  constructor(
+    private readonly commands: CommandRegistry,
+    private readonly input: InputManager,
+  ) {}
+
+  mount(parent: HTMLElement): void {
+    const root = document.createElement("div");
+    root.style.position = "absolute";
+    root.style.top = "0";
+    root.style.left = "0";
+    root.style.right = "0";
+    root.style.height = "40vh";
+    root.style.display = "none";
+    root.style.flexDirection = "column";
+    root.style.background = "rgba(0,0,0,0.85)";
+    root.style.fontFamily = "Consolas, monospace";
+    root.style.fontSize = "13px";
+    root.style.pointerEvents = "auto";
+
+    const output = document.createElement("div");
+    output.style.flex = "1";
+    output.style.overflowY = "auto";
+    output.style.padding = "8px 12px";
+    output.style.whiteSpace = "pre-wrap";
+
+    const field = document.createElement("input");
+    field.type = "text";
+    field.spellcheck = false;
+    field.style.border = "none";
+    field.style.outline = "none";
+    field.style.padding = "8px 12px";
+    field.style.background = "rgba(255,255,255,0.08)";
+    field.style.color = "#ffffff";
+    field.style.font = "inherit";
+    field.addEventListener("keydown", (event) => this.handleFieldKey(event));
+
+    root.append(output, field);
+    parent.appendChild(root);
+    this.root = root;
+    this.output = output;
+    this.field = field;
+
+    const toggleHandler = (event: KeyboardEvent) => {
+      if (event.code !== TOGGLE_KEY || event.target === field) return;
+      event.preventDefault();
+      this.toggle();
+    };
+    window.addEventListener("keydown", toggleHandler);
+    this.listeners.push(() => window.removeEventListener("keydown", toggleHandler));
+
+    this.listeners.push(this.commands.register({
+      name: "clear",
+      description: "清空控制台输出",
+      execute: () => {
+        output.innerHTML = "";
+      },
+    }));
+
+    this.print("输入 help 查看可用命令");
+  }
+
+  toggle(): void {
+    if (this.open) {
+      this.close();
+    } else {
+      this.show();
+    }
+  }
+
+  show(): void {
+    if (!this.root || this.open) return;
+    this.open = true;
+    this.root.style.display = "flex";
+    this.input.pushContext("menu");
+    this.field?.focus();
+  }
+
+  close(): void {
+    if (!this.root || !this.open) return;
+    this.open = false;
+    this.root.style.display = "none";
+    this.input.popContext("menu");
+    this.field?.blur();
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  print(message: string, color = "#dddddd"): void {
+    if (!this.output) return;
+    const line = document.createElement("div");
+    line.textContent = message;
+    line.style.color = color;
+    this.output.appendChild(line);
+    while (this.output.childElementCount > MAX_OUTPUT_LINES) {
+      this.output.removeChild(this.output.firstChild!);
+    }
+    this.output.scrollTop = this.output.scrollHeight;
+  }
+
+  destroy(): void {
+    this.close();
+    this.listeners.forEach((fn) => fn());
+    this.listeners.length = 0;
+    this.root?.remove();
+    this.root = null;
+    this.output = null;
+    this.field = null;
+  }
+
+  private handleFieldKey(event: KeyboardEvent): void {
+    const field = this.field!;
+    // 控制台内的按键不再传给游戏的全局监听
+    event.stopPropagation();
+
+    switch (event.key) {
+      case "Enter":
+        event.preventDefault();
+        void this.submit(field.value);
+        field.value = "";
+        break;
+      case "Tab":
+        event.preventDefault();
+        this.autocomplete();
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        this.browseHistory(1);
+        break;
+      case "ArrowDown":
+        event.preventDefault();
+        this.browseHistory(-1);
+        break;
+      case "Escape":
+        event.preventDefault();
+        this.close();
+        break;
+      default:
+        if (event.code === TOGGLE_KEY) {
+          event.preventDefault();
+          this.close();
+        }
+    }
+  }
+
+  private async submit(line: string): Promise<void> {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    if (this.history[0] !== trimmed) {
+      this.history.unshift(trimmed);
+      this.history.length = Math.min(this.history.length, MAX_HISTORY);
+    }
+    this.historyIndex = -1;
+
+    this.print(`> ${trimmed}`, "#8fd3ff");
+    const result = await this.commands.execute(trimmed);
+    result.lines.forEach((text) => this.print(text, result.ok ? "#dddddd" : "#ff7b7b"));
+  }
+
+  private autocomplete(): void {
+    const field = this.field!;
+    const { prefix, candidates } = this.commands.complete(field.value);
+    if (candidates.length === 0) return;
+
+    if (candidates.length === 1) {
+      field.value = `${prefix}${quote(candidates[0])} `;
+      return;
+    }
+
+    // 多个候选时补全公共前缀并列出候选
+    const common = candidates.reduce((acc, candidate) => {
+      let length = 0;
+      while (length < acc.length && acc[length] === candidate[length]) length += 1;
+      return acc.slice(0, length);
+    });
+    field.value = `${prefix}${common}`;
+    this.print(candidates.join("  "), "#aaaaaa");
+  }
+
+  private browseHistory(direction: number): void {
+    if (this.history.length === 0) return;
+    const field = this.field!;
+    this.historyIndex = Math.max(-1, Math.min(this.history.length - 1, this.historyIndex + direction));
+    field.value = this.historyIndex === -1 ? "" : this.history[this.historyIndex];
+    field.setSelectionRange(field.value.length, field.value.length);
+  }
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
@@ -1,9 +1,9 @@
 ﻿import { AIManager } from "@/ai/AIManager";
 import { DialogueResponse } from "@/types";
-import { NPC } from "@/entities/NPC";
+import { BaseEntity } from "@/entities/BaseEntity";
 
 export interface DialogueSession {
-  npc: NPC;
+  npc: BaseEntity;
   history: DialogueResponse[];
 }
 
@@ -12,7 +12,7 @@ export class DialogSystem {
 
   constructor(private readonly ai: AIManager) {}
 
-  async open(npc: NPC, playerMessage: string): Promise<DialogueResponse> {
+  async open(npc: BaseEntity, playerMessage: string): Promise<DialogueResponse> {
     const response = await this.ai.requestDialogue(npc, playerMessage);
     if (!this.session || this.session.npc.id !== npc.id) {
       this.session = { npc, history: [] };
@@ -0,0 +1,171 @@
+import { LoadingPhase } from "@/core/GameStateMachine";
+
+export interface MenuHandlers {
+  onNewWorld(seed: number): void;
+  onContinue(): void;
+  onResume(): void;
+  onRestart(): void;
+  onQuitToMenu(): void;
+  /** 是否存在可继续的存档，决定主菜单“继续游戏”是否可用 */
+  canContinue(): Promise<boolean>;
+}
+
+const PHASE_LABELS: Record<LoadingPhase, string> = {
+  plugins: "加载插件",
+  systems: "初始化系统",
+  assets: "加载资源",
+  world: "生成世界",
+};
+
+/**
+ * 全屏界面：加载进度、主菜单、暂停遮罩与游戏结束
+ */
+export class GameScreens {
+  private root: HTMLElement | null = null;
+  private handlers: MenuHandlers | null = null;
+
+  mount(parent: HTMLElement): void {
+    const root = document.createElement("div");
+    root.style.position = "fixed";
+    root.style.inset = "0";
+    root.style.display = "none";
+    root.style.flexDirection = "column";
+    root.style.alignItems = "center";
+    root.style.justifyContent = "center";
+    root.style.gap = "16px";
+    root.style.background = "rgba(0,0,0,0.7)";
+    root.style.pointerEvents = "auto";
+    parent.appendChild(root);
+    this.root = root;
+  }
+
+  setHandlers(handlers: MenuHandlers): void {
+    this.handlers = handlers;
+  }
+
+  showLoading(phase: LoadingPhase, progress: number): void {
+    const root = this.reset();
+    if (!root) return;
+
+    const label = document.createElement("div");
+    label.textContent = `${PHASE_LABELS[phase]}… ${Math.round(progress * 100)}%`;
+
+    const track = document.createElement("div");
+    track.style.width = "320px";
+    track.style.height = "8px";
+    track.style.borderRadius = "4px";
+    track.style.background = "rgba(255,255,255,0.2)";
+
+    const bar = document.createElement("div");
+    bar.style.width = `${Math.round(progress * 100)}%`;
+    bar.style.height = "100%";
+    bar.style.borderRadius = "4px";
+    bar.style.background = "#3498db";
+    track.appendChild(bar);
+
+    root.append(label, track);
+  }
+
+  showMainMenu(): void {
+    const root = this.reset();
+    if (!root) return;
+
+    const seedField = document.createElement("input");
+    seedField.type = "text";
+    seedField.placeholder = "世界种子（留空随机）";
+    seedField.style.padding = "8px";
+    seedField.style.width = "220px";
+
+    const continueButton = this.createButton("继续游戏", () => this.handlers?.onContinue());
+    continueButton.disabled = true;
+    this.handlers?.canContinue().then((available) => {
+      continueButton.disabled = !available;
+    }).catch((error) => {
+      console.warn("[GameScreens] 检查存档失败", error);
+    });
+
+    root.append(
+      this.createTitle("AI 沙盒世界"),
+      seedField,
+      this.createButton("新世界", () => this.handlers?.onNewWorld(parseSeed(seedField.value))),
+      continueButton,
+    );
+  }
+
+  showPaused(): void {
+    const root = this.reset();
+    if (!root) return;
+    root.append(
+      this.createTitle("已暂停"),
+      this.createButton("继续", () => this.handlers?.onResume()),
+      this.createButton("返回主菜单", () => this.handlers?.onQuitToMenu()),
+    );
+  }
+
+  showGameOver(reason: string): void {
+    const root = this.reset();
+    if (!root) return;
+
+    const detail = document.createElement("div");
+    detail.textContent = reason;
+    root.append(
+      this.createTitle("游戏结束"),
+      detail,
+      this.createButton("重新开始", () => this.handlers?.onRestart()),
+      this.createButton("返回主菜单", () => this.handlers?.onQuitToMenu()),
+    );
+  }
+
+  hide(): void {
+    if (!this.root) return;
+    this.root.innerHTML = "";
+    this.root.style.display = "none";
+  }
+
+  destroy(): void {
+    this.root?.remove();
+    this.root = null;
+  }
+
+  private reset(): HTMLElement | null {
+    if (!this.root) return null;
+    this.root.innerHTML = "";
+    this.root.style.display = "flex";
+    return this.root;
+  }
+
+  private createTitle(text: string): HTMLElement {
+    const title = document.createElement("h1");
+    title.textContent = text;
+    title.style.margin = "0 0 8px";
+    title.style.fontSize = "32px";
+    return title;
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = text;
+    button.style.width = "220px";
+    button.style.padding = "10px";
+    button.style.fontSize = "16px";
+    button.style.cursor = "pointer";
+    button.addEventListener("click", onClick);
+    return button;
+  }
+}
+
+/**
+ * 数字直接作为种子，其他文本按字符哈希，留空时随机
+ */
+function parseSeed(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return Math.floor(Math.random() * 0x7fffffff);
+  const numeric = Number(trimmed);
+  if (Number.isInteger(numeric)) return numeric;
+
+  let hash = 0;
+  for (let i = 0; i < trimmed.length; i += 1) {
+    hash = (Math.imul(hash, 31) + trimmed.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
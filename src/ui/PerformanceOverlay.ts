@@ -0,0 +1,186 @@
+import { CommandRegistry } from "@/core/CommandRegistry";
+import { FRAME_HISTORY, PerformanceProfile, PerformanceProfiler } from "@/core/PerformanceProfiler";
+import { downloadJson } from "@/utils/FileUtils";
+
+const TOGGLE_KEY = "F3";
+const REFRESH_INTERVAL = 250;
+const GRAPH_HEIGHT = 60;
+/** 帧时间图的纵轴上限（毫秒） */
+const GRAPH_MAX_MS = 50;
+
+/**
+ * 性能面板：按 F3 开关，显示帧率、帧时间图、各系统耗时、物理与渲染对象数量、
+ * 实体数量与 AI 调用统计，并可把当前快照导出为 JSON
+ */
+export class PerformanceOverlay {
+  private root: HTMLElement | null = null;
+  private text: HTMLElement | null = null;
+  private graph: HTMLCanvasElement | null = null;
+  private visible = false;
+  private sinceRefresh = 0;
+  private readonly listeners: Array<() => void> = [];
+
+  constructor(
+    private readonly profiler: PerformanceProfiler,
+    private readonly commands: CommandRegistry,
+  ) {}
+
+  mount(parent: HTMLElement): void {
+    const root = document.createElement("div");
+    root.style.position = "absolute";
+    root.style.top = "48px";
+    root.style.left = "12px";
+    root.style.width = `${FRAME_HISTORY}px`;
+    root.style.padding = "8px";
+    root.style.display = "none";
+    root.style.background = "rgba(0,0,0,0.7)";
+    root.style.borderRadius = "6px";
+    root.style.fontFamily = "Consolas, monospace";
+    root.style.fontSize = "11px";
+    root.style.pointerEvents = "auto";
+
+    const graph = document.createElement("canvas");
+    graph.width = FRAME_HISTORY;
+    graph.height = GRAPH_HEIGHT;
+    graph.style.display = "block";
+    graph.style.marginBottom = "6px";
+
+    const text = document.createElement("div");
+    text.style.whiteSpace = "pre";
+
+    const exportButton = document.createElement("button");
+    exportButton.textContent = "导出 JSON";
+    exportButton.style.marginTop = "6px";
+    exportButton.addEventListener("click", () => this.exportProfile());
+
+    root.append(graph, text, exportButton);
+    parent.appendChild(root);
+    this.root = root;
+    this.text = text;
+    this.graph = graph;
+
+    const toggleHandler = (event: KeyboardEvent) => {
+      if (event.key !== TOGGLE_KEY) return;
+      event.preventDefault();
+      this.toggle();
+    };
+    window.addEventListener("keydown", toggleHandler);
+    this.listeners.push(() => window.removeEventListener("keydown", toggleHandler));
+
+    this.listeners.push(this.commands.register({
+      name: "perf",
+      description: "开关性能面板，或导出性能快照",
+      args: [{ name: "action", type: "string", optional: true, choices: ["show", "hide", "export"] }],
+      execute: ({ action }) => {
+        if (action === "export") {
+          const profile = this.exportProfile();
+          return `已导出性能快照，平均 ${profile.frames.fps.toFixed(1)} FPS`;
+        }
+        if (action === "show") this.show();
+        else if (action === "hide") this.hide();
+        else this.toggle();
+        return this.visible ? "性能面板已打开" : "性能面板已关闭";
+      },
+    }));
+  }
+
+  toggle(): void {
+    if (this.visible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  show(): void {
+    if (!this.root) return;
+    this.visible = true;
+    this.root.style.display = "block";
+    this.refresh();
+  }
+
+  hide(): void {
+    if (!this.root) return;
+    this.visible = false;
+    this.root.style.display = "none";
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  update(delta: number): void {
+    if (!this.visible) return;
+    this.sinceRefresh += delta;
+    if (this.sinceRefresh < REFRESH_INTERVAL) return;
+    this.sinceRefresh = 0;
+    this.refresh();
+  }
+
+  exportProfile(): PerformanceProfile {
+    const profile = this.profiler.capture();
+    downloadJson(profile, `profile-${profile.seed}-${profile.capturedAt}.json`);
+    return profile;
+  }
+
+  destroy(): void {
+    this.listeners.forEach((fn) => fn());
+    this.listeners.length = 0;
+    this.root?.remove();
+    this.root = null;
+    this.text = null;
+    this.graph = null;
+  }
+
+  private refresh(): void {
+    const profile = this.profiler.capture();
+    this.drawGraph(profile);
+    if (this.text) {
+      this.text.textContent = formatProfile(profile);
+    }
+  }
+
+  private drawGraph(profile: PerformanceProfile): void {
+    const context = this.graph?.getContext("2d");
+    if (!context) return;
+
+    context.clearRect(0, 0, FRAME_HISTORY, GRAPH_HEIGHT);
+    const toY = (ms: number) => GRAPH_HEIGHT - (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+
+    // 帧间隔为灰色，系统更新耗时叠加为绿色
+    const offset = FRAME_HISTORY - profile.frameHistory.length;
+    profile.frameHistory.forEach((sample, i) => {
+      context.fillStyle = sample.interval > 1000 / 30 ? "#ff6b6b" : "#777777";
+      context.fillRect(offset + i, toY(sample.interval), 1, GRAPH_HEIGHT - toY(sample.interval));
+      context.fillStyle = "#6bff8f";
+      context.fillRect(offset + i, toY(sample.work), 1, GRAPH_HEIGHT - toY(sample.work));
+    });
+
+    // 60 FPS 与 30 FPS 参考线
+    context.fillStyle = "rgba(255,255,255,0.4)";
+    context.fillRect(0, toY(1000 / 60), FRAME_HISTORY, 1);
+    context.fillRect(0, toY(1000 / 30), FRAME_HISTORY, 1);
+  }
+}
+
+function formatProfile(profile: PerformanceProfile): string {
+  const { frames, systems, physics, display, entities, ai } = profile;
+  const lines = [
+    `FPS ${frames.fps.toFixed(1)}  帧 ${frames.averageInterval.toFixed(1)}ms (max ${frames.maxInterval.toFixed(1)})`,
+    `更新 ${frames.averageWork.toFixed(2)}ms (max ${frames.maxWork.toFixed(2)})`,
+    "",
+    "系统 (ms)",
+    ...systems.map((system) => {
+      const total = system.update.average + system.postUpdate.average;
+      return `  ${system.name.padEnd(10)} ${total.toFixed(2).padStart(6)}${system.enabled ? "" : "  (停用)"}`;
+    }),
+    "",
+    `物理刚体 ${physics.total}  休眠 ${physics.sleeping}  静态 ${physics.static}`,
+    display ? `显示对象 ${display.stage}  地形 ${display.terrain}` : "显示对象 -",
+    `实体 ${Object.entries(entities).map(([type, count]) => `${type}:${count}`).join("  ") || "无"}`,
+    "",
+    `AI 进行中 ${ai.inFlight}  预算 ${Math.max(0, ai.remainingBudget)}/${ai.maxCallsPerHour}`,
+    `AI 回退率 ${(ai.fallbackRate * 100).toFixed(0)}% (${ai.fallbacks}/${ai.requests})  延迟 ${ai.averageLatency.toFixed(0)}ms`,
+  ];
+  return lines.join("\n");
+}
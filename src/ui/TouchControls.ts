@@ -0,0 +1,143 @@
+import { InputManager, KeyBinding } from "@/core/InputManager";
+
+const JOYSTICK_RADIUS = 60;
+// 摇杆偏移超过该比例时同时激活对应的方向绑定
+const DIRECTION_THRESHOLD = 0.5;
+
+/**
+ * 触屏设备上的虚拟摇杆与按钮，把操作写入 InputManager 的虚拟输入，
+ * 实体仍然只通过 getInputState 读取输入
+ */
+export class TouchControls {
+  private root: HTMLElement | null = null;
+  private knob: HTMLElement | null = null;
+  private joystickPointer: number | null = null;
+
+  constructor(private readonly input: InputManager) {}
+
+  static isTouchDevice(): boolean {
+    if (typeof window === "undefined") return false;
+    return "ontouchstart" in window || navigator.maxTouchPoints > 0;
+  }
+
+  mount(parent: HTMLElement): void {
+    const root = document.createElement("div");
+    root.style.position = "fixed";
+    root.style.inset = "0";
+    root.style.pointerEvents = "none";
+
+    root.append(
+      this.createJoystick(),
+      this.createButton("冲刺", "sprint", 24, 24),
+      this.createButton("互动", "action", 24, 112),
+      this.createButton("射击", "fire", 112, 24),
+      this.createButton("攻击", "attack", 112, 112),
+    );
+    parent.appendChild(root);
+    this.root = root;
+  }
+
+  destroy(): void {
+    this.resetJoystick();
+    this.root?.remove();
+    this.root = null;
+  }
+
+  private createJoystick(): HTMLElement {
+    const base = document.createElement("div");
+    base.style.position = "absolute";
+    base.style.left = "32px";
+    base.style.bottom = "32px";
+    base.style.width = `${JOYSTICK_RADIUS * 2}px`;
+    base.style.height = `${JOYSTICK_RADIUS * 2}px`;
+    base.style.borderRadius = "50%";
+    base.style.background = "rgba(255,255,255,0.15)";
+    base.style.border = "2px solid rgba(255,255,255,0.35)";
+    base.style.pointerEvents = "auto";
+    base.style.touchAction = "none";
+
+    const knob = document.createElement("div");
+    knob.style.position = "absolute";
+    knob.style.left = `${JOYSTICK_RADIUS - 25}px`;
+    knob.style.top = `${JOYSTICK_RADIUS - 25}px`;
+    knob.style.width = "50px";
+    knob.style.height = "50px";
+    knob.style.borderRadius = "50%";
+    knob.style.background = "rgba(255,255,255,0.6)";
+    base.appendChild(knob);
+    this.knob = knob;
+
+    const move = (event: PointerEvent) => {
+      if (event.pointerId !== this.joystickPointer) return;
+      const rect = base.getBoundingClientRect();
+      const offsetX = event.clientX - (rect.left + rect.width / 2);
+      const offsetY = event.clientY - (rect.top + rect.height / 2);
+      const distance = Math.hypot(offsetX, offsetY);
+      const scale = distance > JOYSTICK_RADIUS ? JOYSTICK_RADIUS / distance : 1;
+      this.updateJoystick(offsetX * scale, offsetY * scale);
+    };
+
+    base.addEventListener("pointerdown", (event) => {
+      this.joystickPointer = event.pointerId;
+      base.setPointerCapture(event.pointerId);
+      move(event);
+    });
+    base.addEventListener("pointermove", move);
+    const release = (event: PointerEvent) => {
+      if (event.pointerId !== this.joystickPointer) return;
+      this.resetJoystick();
+    };
+    base.addEventListener("pointerup", release);
+    base.addEventListener("pointercancel", release);
+
+    return base;
+  }
+
+  private createButton(label: string, binding: KeyBinding, right: number, bottom: number): HTMLElement {
+    const button = document.createElement("div");
+    button.textContent = label;
+    button.style.position = "absolute";
+    button.style.right = `${right + 8}px`;
+    button.style.bottom = `${bottom + 8}px`;
+    button.style.width = "72px";
+    button.style.height = "72px";
+    button.style.lineHeight = "72px";
+    button.style.textAlign = "center";
+    button.style.borderRadius = "50%";
+    button.style.background = "rgba(255,255,255,0.2)";
+    button.style.border = "2px solid rgba(255,255,255,0.4)";
+    button.style.fontSize = "14px";
+    button.style.userSelect = "none";
+    button.style.pointerEvents = "auto";
+    button.style.touchAction = "none";
+
+    button.addEventListener("pointerdown", (event) => {
+      button.setPointerCapture(event.pointerId);
+      this.input.setVirtualBinding(binding, true);
+    });
+    const release = () => this.input.setVirtualBinding(binding, false);
+    button.addEventListener("pointerup", release);
+    button.addEventListener("pointercancel", release);
+
+    return button;
+  }
+
+  private updateJoystick(offsetX: number, offsetY: number): void {
+    if (this.knob) {
+      this.knob.style.transform = `translate(${offsetX}px, ${offsetY}px)`;
+    }
+
+    const x = offsetX / JOYSTICK_RADIUS;
+    const y = offsetY / JOYSTICK_RADIUS;
+    this.input.setVirtualMovement({ x, y });
+    this.input.setVirtualBinding("left", x < -DIRECTION_THRESHOLD);
+    this.input.setVirtualBinding("right", x > DIRECTION_THRESHOLD);
+    this.input.setVirtualBinding("up", y < -DIRECTION_THRESHOLD);
+    this.input.setVirtualBinding("down", y > DIRECTION_THRESHOLD);
+  }
+
+  private resetJoystick(): void {
+    this.joystickPointer = null;
+    this.updateJoystick(0, 0);
+  }
+}
@@ -1,27 +1,66 @@
 ﻿import { AIManager } from "@/ai/AIManager";
+import { getFaction, HOSTILE_STANDING } from "@/ai/RelationshipSystem";
+import { CommandRegistry } from "@/core/CommandRegistry";
 import { EventBus } from "@/core/EventBus";
+import { InputManager } from "@/core/InputManager";
+import { PerformanceProfiler } from "@/core/PerformanceProfiler";
 import { GameSystem } from "@/core/SystemManager";
-import { DialogueResponse, WorldState } from "@/types";
+import { HealthComponent, VitalsComponent } from "@/entities/Components";
+import { EntityManager } from "@/entities/EntityManager";
+import { experienceForLevel } from "@/survival/VitalsSystem";
+import { DialogueResponse } from "@/types";
+import { WorldState } from "@/world/WorldManager";
+import { DevConsole } from "./DevConsole";
 import { DialogSystem } from "./DialogSystem";
+import { GameScreens, MenuHandlers } from "./GameScreens";
 import { Inventory } from "./Inventory";
+import { PerformanceOverlay } from "./PerformanceOverlay";
+import { TouchControls } from "./TouchControls";
 
 interface UIElements {
   root: HTMLElement;
   hud: HTMLElement;
   dialogue: HTMLElement;
+  prompt: HTMLElement;
   log: HTMLElement;
 }
 
+/** 与 NPC 交谈的最大距离，与动作键的交互范围一致 */
+const INTERACTION_RANGE = 120;
+/** 交互提示的刷新间隔（毫秒） */
+const PROMPT_INTERVAL = 100;
+/** 互动被拒绝时的提示 */
+const INTERACTION_LABELS: Record<string, string> = {
+  talk: "和你交谈",
+  gift: "收你的东西",
+};
+
 export class UIManager implements GameSystem {
   public readonly name = "ui";
   public readonly priority = 10;
+  public readonly dependsOn = ["world", "ai"];
 
-  private readonly inventory = new Inventory();
   private readonly dialogSystem: DialogSystem;
+  private touchControls: TouchControls | null = null;
+  private devConsole: DevConsole | null = null;
+  private performanceOverlay: PerformanceOverlay | null = null;
+  private readonly screens = new GameScreens();
+  private gameOverReason = "";
   private elements: UIElements | null = null;
   private worldState: WorldState | null = null;
+  private vitals: { vitals: VitalsComponent; health: HealthComponent } | null = null;
+  private promptTimer = 0;
+  private promptTargetId: string | null = null;
 
-  constructor(private readonly ai: AIManager, private readonly eventBus: EventBus) {
+  constructor(
+    private readonly ai: AIManager,
+    private readonly entities: EntityManager,
+    private readonly eventBus: EventBus,
+    private readonly inventory: Inventory,
+    private readonly input: InputManager,
+    private readonly commands: CommandRegistry,
+    private readonly profiler: PerformanceProfiler,
+  ) {
     this.dialogSystem = new DialogSystem(ai);
   }
 
@@ -57,6 +96,17 @@ export class UIManager implements GameSystem {
     dialogue.style.pointerEvents = "auto";
     dialogue.style.display = "none";
 
+    const prompt = document.createElement("div");
+    prompt.style.position = "absolute";
+    prompt.style.bottom = "160px";
+    prompt.style.left = "50%";
+    prompt.style.transform = "translateX(-50%)";
+    prompt.style.background = "rgba(0,0,0,0.5)";
+    prompt.style.borderRadius = "6px";
+    prompt.style.padding = "6px 12px";
+    prompt.style.fontSize = "13px";
+    prompt.style.display = "none";
+
     const log = document.createElement("div");
     log.style.position = "absolute";
     log.style.top = "80px";
@@ -69,22 +119,120 @@ export class UIManager implements GameSystem {
     log.style.maxHeight = "240px";
     log.style.overflowY = "auto";
 
-    root.append(hud, dialogue, log);
+    root.append(hud, dialogue, prompt, log);
     document.body.appendChild(root);
 
-    this.elements = { root, hud, dialogue, log };
+    this.elements = { root, hud, dialogue, prompt, log };
+
+    // UI 在加载阶段初始化，先显示加载界面，之后随游戏状态切换
+    this.screens.mount(root);
+    this.screens.showLoading("systems", 0);
+
+    this.devConsole = new DevConsole(this.commands, this.input);
+    this.devConsole.mount(root);
+
+    this.performanceOverlay = new PerformanceOverlay(this.profiler, this.commands);
+    this.performanceOverlay.mount(root);
+
+    if (TouchControls.isTouchDevice()) {
+      this.touchControls = new TouchControls(this.input);
+      this.touchControls.mount(root);
+    }
 
-    this.eventBus.on<WorldState>("world:state", (state) => {
+    this.eventBus.on("world:state", (state) => {
       this.worldState = state;
       this.renderHUD();
     });
 
+    this.eventBus.on("vitals:changed", ({ entity, vitals, health }) => {
+      if (entity.type !== "player") return;
+      this.vitals = { vitals, health };
+      this.renderHUD();
+    });
+
+    this.eventBus.on("vitals:experience", ({ amount }) => {
+      this.appendLog(`获得 ${amount} 点经验`);
+    });
+
+    this.eventBus.on("vitals:level-up", ({ level, attributePoints }) => {
+      this.appendLog(`升到 ${level} 级！可分配属性点 ${attributePoints}（控制台 attr 命令）`);
+    });
+
     this.eventBus.on("npc:behavior", ({ npc, decision }) => {
-      this.appendLog(`${npc.name} -> ${decision.action} (${decision.reasoning})`);
+      this.appendLog(`${npc.getDisplayName()} -> ${decision.action} (${decision.reasoning})`);
+    });
+
+    this.eventBus.on("npc:action", ({ npc, decision, status, reason }) => {
+      if (status === "failed") this.appendLog(`${npc.getDisplayName()} 放弃 ${decision.action}：${reason}`);
+    });
+
+    this.eventBus.on("combat:damage", ({ target, source, amount }) => {
+      const attacker = source ? `${source.getDisplayName()} 对 ` : "";
+      this.appendLog(`${attacker}${target.getDisplayName()} 造成 ${amount} 点伤害`);
+    });
+
+    this.eventBus.on("combat:death", ({ entity }) => {
+      this.appendLog(`${entity.getDisplayName()} 倒下了`);
+    });
+
+    this.eventBus.on("relationship:refused", ({ npc, interaction }) => {
+      this.appendLog(`${npc.getDisplayName()} 不愿意${INTERACTION_LABELS[interaction] ?? interaction}`);
+    });
+
+    // 只在阵营转为敌对或恢复时提示
+    this.eventBus.on("faction:changed", ({ faction, previous, hostile }) => {
+      const name = getFaction(faction)?.name ?? faction;
+      if (hostile && previous > HOSTILE_STANDING) this.appendLog(`${name}与你为敌了！`);
+      if (!hostile && previous <= HOSTILE_STANDING) this.appendLog(`${name}不再敌视你`);
+    });
+
+    this.eventBus.on("combat:loot", ({ entity, items }) => {
+      this.appendLog(`${entity.getDisplayName()} 掉落 ${items.map((item) => `${item.name} x${item.quantity}`).join("、")}`);
+    });
+
+    this.eventBus.on("game:loading-progress", ({ phase, progress }) => {
+      this.screens.showLoading(phase, progress);
+    });
+
+    this.eventBus.on("game:over", ({ reason }) => {
+      this.gameOverReason = reason;
+    });
+
+    this.eventBus.on("game:state-enter", ({ state }) => {
+      switch (state) {
+        case "loading":
+          this.screens.showLoading("world", 0);
+          break;
+        case "menu":
+          this.hideDialogue();
+          this.screens.showMainMenu();
+          break;
+        case "paused":
+          this.screens.showPaused();
+          break;
+        case "gameover":
+          this.screens.showGameOver(this.gameOverReason);
+          break;
+        case "playing":
+          this.screens.hide();
+          break;
+      }
     });
   }
 
-  update(): void {}
+  setMenuHandlers(handlers: MenuHandlers): void {
+    this.screens.setHandlers(handlers);
+  }
+
+  update(delta: number): void {
+    this.performanceOverlay?.update(delta);
+
+    this.promptTimer -= delta;
+    if (this.promptTimer <= 0) {
+      this.promptTimer = PROMPT_INTERVAL;
+      this.renderInteractionPrompt();
+    }
+  }
 
   async showDialogue(response: DialogueResponse): Promise<void> {
     if (!this.elements) return;
@@ -98,11 +246,37 @@ export class UIManager implements GameSystem {
     this.elements.dialogue.style.display = "none";
   }
 
+  /**
+   * 在事件日志中显示一条提示，供没有对应游戏事件的操作（如存档失败）使用
+   */
+  log(message: string): void {
+    this.appendLog(message);
+  }
+
   getDialogSystem(): DialogSystem {
     return this.dialogSystem;
   }
 
+  getInventory(): Inventory {
+    return this.inventory;
+  }
+
+  getDevConsole(): DevConsole | null {
+    return this.devConsole;
+  }
+
+  getPerformanceOverlay(): PerformanceOverlay | null {
+    return this.performanceOverlay;
+  }
+
   destroy(): void {
+    this.touchControls?.destroy();
+    this.touchControls = null;
+    this.devConsole?.destroy();
+    this.devConsole = null;
+    this.performanceOverlay?.destroy();
+    this.performanceOverlay = null;
+    this.screens.destroy();
     if (this.elements) {
       this.elements.root.remove();
       this.elements = null;
@@ -115,10 +289,40 @@ export class UIManager implements GameSystem {
     const { timeOfDay, weather, dayCount } = this.worldState;
     hud.innerHTML = `
       <div>第 ${dayCount + 1} 天 | 时间 ${timeOfDay.toFixed(2)} | 天气 ${weather.type}</div>
+      ${this.renderVitals()}
       <div>AI 调用剩余：${this.aiRemaining()}</div>
     `;
   }
 
+  private renderVitals(): string {
+    if (!this.vitals) return "";
+    const { vitals, health } = this.vitals;
+    const points = vitals.attributePoints > 0 ? ` | 属性点 ${vitals.attributePoints}` : "";
+    return `<div>生命 ${Math.ceil(health.current)}/${health.max} | 体力 ${Math.floor(vitals.stamina)}/${vitals.maxStamina}`
+      + ` | 饥饿 ${Math.floor(vitals.hunger)} | 口渴 ${Math.floor(vitals.thirst)}`
+      + ` | Lv.${vitals.level} (${Math.floor(vitals.experience)}/${experienceForLevel(vitals.level)})${points}</div>`;
+  }
+
+  /**
+   * 玩家靠近可对话的 NPC 时提示动作键，对话或菜单中不显示
+   */
+  private renderInteractionPrompt(): void {
+    if (!this.elements) return;
+    const { prompt } = this.elements;
+    const npc = this.input.getActiveContext() === "gameplay" ? this.entities.findNearestNPC(INTERACTION_RANGE) : null;
+    if (!npc) {
+      prompt.style.display = "none";
+      this.promptTargetId = null;
+      return;
+    }
+    if (npc.id === this.promptTargetId) return;
+
+    const key = (this.input.getCodesFor("action")[0] ?? "E").replace(/^Key/, "");
+    prompt.textContent = `[${key}] 与 ${npc.getDisplayName()} 交谈`;
+    prompt.style.display = "block";
+    this.promptTargetId = npc.id;
+  }
+
   private appendLog(message: string): void {
     if (!this.elements) return;
     const entry = document.createElement("div");
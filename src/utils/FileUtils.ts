@@ -0,0 +1,14 @@
+/**
+ * 在浏览器中把数据下载为格式化的 JSON 文件；非浏览器环境下不做任何事
+ */
+export const downloadJson = (data: unknown, fileName: string): void => {
+  if (typeof document === "undefined") return;
+
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
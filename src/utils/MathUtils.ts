@@ -8,8 +8,8 @@ export const lerp = (start: number, end: number, alpha: number): number => {
   return (1 - alpha) * start + alpha * end;
 };
 
-export const randRange = (min: number, max: number): number => {
-  return Math.random() * (max - min) + min;
+export const randRange = (min: number, max: number, random: () => number = Math.random): number => {
+  return random() * (max - min) + min;
 };
 
 export const seededRandom = (seed: number): () => number => {
@@ -0,0 +1,36 @@
+import { seededRandom } from "./MathUtils";
+
+export type RandomSource = () => number;
+
+const hashName = (name: string): number => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i += 1) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 按名称划分的确定性随机数流。每个子系统使用独立的流，
+ * 这样某个系统多取或少取随机数不会影响其他系统的序列，回放时可完全复现
+ */
+export class RandomStreams {
+  private readonly streams = new Map<string, RandomSource>();
+
+  constructor(private readonly seed: number) {}
+
+  stream(name: string): RandomSource {
+    let source = this.streams.get(name);
+    if (!source) {
+      source = seededRandom((this.seed ^ hashName(name)) >>> 0);
+      this.streams.set(name, source);
+    }
+    return source;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+}
@@ -1,4 +1,4 @@
-﻿import { BiomeType } from "@/types";
+﻿import { BiomeType, BuiltinBiomeType } from "@/types";
 
 export interface BiomeProperties {
   name: string;
@@ -7,9 +7,22 @@ export interface BiomeProperties {
   temperature: number;
   humidity: number;
   description: string;
+  /** 是否可以通行，寻路会绕开不可通行的地形 */
+  passable: boolean;
+  /** 寻路时穿过该地形的代价倍率，平原为 1，不能低于 1 */
+  movementCost: number;
+  /** 地形渲染的底色 */
+  terrainColor: number;
+  /** 地形上随机点缀的细节颜色 */
+  detailColors: number[];
+  /**
+   * 地形噪声落在 [min, max) 区间时生成该群系；
+   * 插件注册的群系优先于内置群系匹配，未设置则不会自然生成
+   */
+  noiseRange?: [number, number];
 }
 
-const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
+const BIOME_TABLE: Record<BuiltinBiomeType, BiomeProperties> = {
   forest: {
     name: "森林",
     ambientColor: 0x2c3e50,
@@ -17,6 +30,11 @@ const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
     temperature: 18,
     humidity: 0.7,
     description: "繁茂的森林，拥有丰富的资源和中等的危险等级。",
+    passable: true,
+    movementCost: 1.3,
+    terrainColor: 0x2d5016,
+    detailColors: [0x1b3d0c, 0x4a7c59],
+    noiseRange: [0.4, 0.6],
   },
   desert: {
     name: "沙漠",
@@ -25,6 +43,11 @@ const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
     temperature: 35,
     humidity: 0.1,
     description: "炎热干燥的沙漠，资源稀缺但矿产丰富。",
+    passable: true,
+    movementCost: 1.5,
+    terrainColor: 0xc2b280,
+    detailColors: [0xd4c5a9, 0xa0956b],
+    noiseRange: [0.8, Infinity],
   },
   tundra: {
     name: "冻原",
@@ -33,6 +56,11 @@ const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
     temperature: -5,
     humidity: 0.4,
     description: "寒冷的冻原，资源稀少但可能出现稀有生物。",
+    passable: true,
+    movementCost: 1.6,
+    terrainColor: 0xe8f4f8,
+    detailColors: [0xffffff],
+    noiseRange: [-Infinity, 0.2],
   },
   swamp: {
     name: "沼泽",
@@ -41,6 +69,11 @@ const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
     temperature: 22,
     humidity: 0.9,
     description: "潮湿的沼泽地，危险生物较多，需要注意防护。",
+    passable: true,
+    movementCost: 2.5,
+    terrainColor: 0x4a5d23,
+    detailColors: [0x2d3d0f, 0x6b7c32],
+    noiseRange: [0.2, 0.4],
   },
   plains: {
     name: "平原",
@@ -49,11 +82,62 @@ const BIOME_TABLE: Record<BiomeType, BiomeProperties> = {
     temperature: 20,
     humidity: 0.5,
     description: "开阔的平原，视野良好，适合建造和探索。",
+    passable: true,
+    movementCost: 1,
+    terrainColor: 0x7cb342,
+    detailColors: [0x8bc34a, 0x689f38],
+    noiseRange: [0.6, 0.8],
   },
 };
 
+const FALLBACK_BIOME: BuiltinBiomeType = "plains";
+
 export class BiomeSystem {
+  private readonly custom = new Map<BiomeType, BiomeProperties>();
+
+  /**
+   * 注册或覆盖一个生物群系，返回的函数撤销本次注册并恢复被覆盖的群系
+   */
+  register(biome: BiomeType, properties: BiomeProperties): () => void {
+    // 寻路的启发函数假设代价倍率不低于 1，更低的代价会让 A* 找不到最短路径
+    if (!(properties.movementCost >= 1)) {
+      throw new Error(`Invalid biome ${biome}: movementCost must be at least 1`);
+    }
+    const previous = this.custom.get(biome);
+    this.custom.set(biome, properties);
+    return () => {
+      if (this.custom.get(biome) !== properties) return;
+      if (previous) {
+        this.custom.set(biome, previous);
+      } else {
+        this.custom.delete(biome);
+      }
+    };
+  }
+
   getProperties(biome: BiomeType): BiomeProperties {
-    return BIOME_TABLE[biome];
+    const properties = this.custom.get(biome) ?? BIOME_TABLE[biome as BuiltinBiomeType];
+    if (!properties) {
+      console.warn(`[BiomeSystem] 未知的生物群系 ${biome}，使用 ${FALLBACK_BIOME} 代替`);
+      return BIOME_TABLE[FALLBACK_BIOME];
+    }
+    return properties;
+  }
+
+  listBiomes(): BiomeType[] {
+    return [...new Set<BiomeType>([...Object.keys(BIOME_TABLE), ...this.custom.keys()])];
+  }
+
+  /**
+   * 根据地形噪声值选择群系，后注册的插件群系优先
+   */
+  selectBiome(noiseValue: number): BiomeType {
+    const candidates: Array<[BiomeType, BiomeProperties]> = [
+      ...[...this.custom.entries()].reverse(),
+      ...(Object.entries(BIOME_TABLE) as Array<[BiomeType, BiomeProperties]>),
+    ];
+    const match = candidates.find(([, { noiseRange }]) =>
+      noiseRange !== undefined && noiseValue >= noiseRange[0] && noiseValue < noiseRange[1]);
+    return match ? match[0] : FALLBACK_BIOME;
   }
 }
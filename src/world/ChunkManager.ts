@@ -1,8 +1,11 @@
 import { BiomeType, Vector2, WorldChunk } from "@/types";
 import { PerlinNoise } from "@/utils/PerlinNoise";
+import { BiomeSystem } from "./BiomeSystem";
 
 export interface ChunkManagerOptions {
   chunkSize: number;
+  /** 地图每边的区块数 */
+  mapSize: number;
   viewDistance: number;
   seed: number;
 }
@@ -10,10 +13,12 @@ export interface ChunkManagerOptions {
 export class ChunkManager {
   private readonly chunks: Map<string, WorldChunk> = new Map();
   private readonly noise: PerlinNoise;
-  private mapSize: number = 50; // 地图大小（50x50个区块）
   private isPreloaded: boolean = false; // 是否已预加载
 
-  constructor(private readonly options: ChunkManagerOptions) {
+  constructor(
+    private readonly options: ChunkManagerOptions,
+    private readonly biomes: BiomeSystem,
+  ) {
     this.noise = new PerlinNoise(options.seed);
   }
 
@@ -32,29 +37,41 @@ export class ChunkManager {
     return chunk;
   }
 
+  /**
+   * 返回已生成的区块，不会为未加载的位置生成新区块
+   */
+  findChunkAt(position: Vector2): WorldChunk | undefined {
+    const gridX = Math.floor(position.x / this.options.chunkSize);
+    const gridY = Math.floor(position.y / this.options.chunkSize);
+    return this.chunks.get(this.getChunkKey(gridX, gridY));
+  }
+
   getActiveChunks(): WorldChunk[] {
     return [...this.chunks.values()];
   }
 
   /**
-   * 预加载整个地图
+   * 预加载整个地图；onProgress 以 0-1 报告进度
    */
-  async preloadMap(): Promise<void> {
+  async preloadMap(onProgress?: (progress: number) => void): Promise<void> {
     if (this.isPreloaded) {
       console.log('地图已经预加载完毕');
       return;
     }
 
-    console.log(`开始预加载地图，大小: ${this.mapSize}x${this.mapSize} 个区块`);
+    const { mapSize } = this.options;
+    console.log(`开始预加载地图，大小: ${mapSize}x${mapSize} 个区块`);
     const startTime = performance.now();
     
-    const halfSize = Math.floor(this.mapSize / 2);
+    const halfSize = Math.floor(mapSize / 2);
+    const start = -halfSize;
+    const end = start + mapSize - 1;
     let loadedChunks = 0;
-    const totalChunks = this.mapSize * this.mapSize;
+    const totalChunks = mapSize * mapSize;
 
     // 预加载所有区块
-    for (let x = -halfSize; x <= halfSize; x++) {
-      for (let z = -halfSize; z <= halfSize; z++) {
+    for (let x = start; x <= end; x++) {
+      for (let z = start; z <= end; z++) {
         const key = this.getChunkKey(x, z);
         if (!this.chunks.has(key)) {
           const chunk = this.generateChunk(x, z);
@@ -65,6 +82,7 @@ export class ChunkManager {
       
       // 每加载一行区块就让出控制权，避免阻塞UI
       if (x % 5 === 0) {
+        onProgress?.((x - start + 1) / mapSize);
         await new Promise(resolve => setTimeout(resolve, 1));
       }
     }
@@ -72,6 +90,7 @@ export class ChunkManager {
     const endTime = performance.now();
     console.log(`地图预加载完成！加载了 ${loadedChunks}/${totalChunks} 个区块，耗时: ${(endTime - startTime).toFixed(2)}ms`);
     this.isPreloaded = true;
+    onProgress?.(1);
   }
 
   /**
@@ -141,10 +160,6 @@ export class ChunkManager {
 
   private sampleBiome(gridX: number, gridY: number): BiomeType {
     const value = this.noise.noise(gridX * 0.05, gridY * 0.05, 0);
-    if (value < 0.2) return "tundra";
-    if (value < 0.4) return "swamp";
-    if (value < 0.6) return "forest";
-    if (value < 0.8) return "plains";
-    return "desert";
+    return this.biomes.selectBiome(value);
   }
 }
@@ -0,0 +1,222 @@
+import { Body, Bounds, Query } from "matter-js";
+import { PhysicsEngine } from "@/physics/PhysicsEngine";
+import { Vector2 } from "@/types";
+import { WorldManager } from "./WorldManager";
+
+export interface PathfinderOptions {
+  /** 寻路网格的格子边长（像素） */
+  cellSize: number;
+  /** 单次寻路最多展开的格子数，超过则视为不可达 */
+  maxExpandedNodes: number;
+  /** 与静态刚体保持的最小间距，通常取移动体半径 */
+  clearance: number;
+}
+
+const DEFAULT_OPTIONS: PathfinderOptions = {
+  cellSize: 32,
+  maxExpandedNodes: 4000,
+  clearance: 24,
+};
+
+const NEIGHBORS: Array<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+interface PathNode {
+  x: number;
+  y: number;
+  g: number;
+  f: number;
+  parent: PathNode | null;
+}
+
+/**
+ * 基于网格的 A* 寻路，绕开静态刚体与不可通行的地形，并按地形通行代价选择路线
+ */
+export class Pathfinder {
+  private readonly options: PathfinderOptions;
+
+  constructor(
+    private readonly physics: PhysicsEngine,
+    private readonly world: WorldManager,
+    options: Partial<PathfinderOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 计算从起点到终点的路径点（世界坐标，不含起点，最后一个点为终点）；不可达时返回 null
+   */
+  findPath(start: Vector2, goal: Vector2): Vector2[] | null {
+    const { cellSize, maxExpandedNodes } = this.options;
+    const staticBodies = this.physics.getStaticBodies();
+    const startCell = this.toCell(start);
+    const goalCell = this.toCell(goal);
+
+    if (!this.isWalkable(goalCell.x, goalCell.y, staticBodies)) {
+      return null;
+    }
+
+    if (startCell.x === goalCell.x && startCell.y === goalCell.y) {
+      return [{ ...goal }];
+    }
+
+    const open: PathNode[] = [];
+    const openByKey = new Map<string, PathNode>();
+    const closed = new Set<string>();
+    const walkableCache = new Map<string, boolean>();
+
+    const isWalkable = (x: number, y: number) => {
+      const key = `${x}:${y}`;
+      let walkable = walkableCache.get(key);
+      if (walkable === undefined) {
+        walkable = this.isWalkable(x, y, staticBodies);
+        walkableCache.set(key, walkable);
+      }
+      return walkable;
+    };
+
+    const startNode: PathNode = { ...startCell, g: 0, f: this.heuristic(startCell, goalCell), parent: null };
+    pushNode(open, startNode);
+    openByKey.set(`${startCell.x}:${startCell.y}`, startNode);
+
+    let expanded = 0;
+    while (open.length > 0 && expanded < maxExpandedNodes) {
+      const current = popNode(open);
+      const currentKey = `${current.x}:${current.y}`;
+      if (closed.has(currentKey)) continue;
+      openByKey.delete(currentKey);
+      closed.add(currentKey);
+      expanded += 1;
+
+      if (current.x === goalCell.x && current.y === goalCell.y) {
+        return this.buildPath(current, goal);
+      }
+
+      for (const [dx, dy] of NEIGHBORS) {
+        const x = current.x + dx;
+        const y = current.y + dy;
+        const key = `${x}:${y}`;
+        if (closed.has(key) || !isWalkable(x, y)) continue;
+        // 斜向移动时不允许贴着障碍物的拐角穿过
+        if (dx !== 0 && dy !== 0 && (!isWalkable(current.x + dx, current.y) || !isWalkable(current.x, current.y + dy))) {
+          continue;
+        }
+
+        const stepCost = (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1) * this.terrainCost(x, y);
+        const g = current.g + stepCost;
+        const existing = openByKey.get(key);
+        if (existing && existing.g <= g) continue;
+
+        const node: PathNode = { x, y, g, f: g + this.heuristic({ x, y }, goalCell), parent: current };
+        openByKey.set(key, node);
+        pushNode(open, node);
+      }
+    }
+
+    console.warn(`[Pathfinder] 未找到路径 (${start.x.toFixed(0)}, ${start.y.toFixed(0)}) -> (${goal.x.toFixed(0)}, ${goal.y.toFixed(0)})，展开 ${expanded} 个格子，格子大小 ${cellSize}`);
+    return null;
+  }
+
+  private buildPath(end: PathNode, goal: Vector2): Vector2[] {
+    const cells: Vector2[] = [];
+    for (let node: PathNode | null = end; node?.parent; node = node.parent) {
+      cells.push({ x: node.x, y: node.y });
+    }
+    cells.reverse();
+
+    // 去掉同一方向上的中间点，只保留拐点
+    const waypoints: Vector2[] = [];
+    for (let i = 0; i < cells.length - 1; i += 1) {
+      const prev = i === 0 ? null : cells[i - 1];
+      const cell = cells[i];
+      const next = cells[i + 1];
+      if (prev && cell.x - prev.x === next.x - cell.x && cell.y - prev.y === next.y - cell.y) continue;
+      waypoints.push(this.toWorld(cell));
+    }
+    waypoints.push({ ...goal });
+    return waypoints;
+  }
+
+  /**
+   * 世界坐标所在的格子能否通行（地形可通行且没有静态障碍物）
+   */
+  isWalkableAt(position: Vector2): boolean {
+    const cell = this.toCell(position);
+    return this.isWalkable(cell.x, cell.y, this.physics.getStaticBodies());
+  }
+
+  private isWalkable(x: number, y: number, staticBodies: Body[]): boolean {
+    const center = this.toWorld({ x, y });
+    if (!this.world.getBiomePropertiesAt(center).passable) {
+      return false;
+    }
+    if (staticBodies.length === 0) {
+      return true;
+    }
+
+    const half = this.options.cellSize / 2 + this.options.clearance;
+    const bounds: Bounds = {
+      min: { x: center.x - half, y: center.y - half },
+      max: { x: center.x + half, y: center.y + half },
+    };
+    return Query.region(staticBodies, bounds).length === 0;
+  }
+
+  private terrainCost(x: number, y: number): number {
+    return this.world.getBiomePropertiesAt(this.toWorld({ x, y })).movementCost;
+  }
+
+  private heuristic(a: Vector2, b: Vector2): number {
+    // 八方向网格的对角距离；地形代价倍率不低于 1，因此估值不会高估
+    const dx = Math.abs(a.x - b.x);
+    const dy = Math.abs(a.y - b.y);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  }
+
+  private toCell(position: Vector2): Vector2 {
+    return {
+      x: Math.floor(position.x / this.options.cellSize),
+      y: Math.floor(position.y / this.options.cellSize),
+    };
+  }
+
+  private toWorld(cell: Vector2): Vector2 {
+    return {
+      x: (cell.x + 0.5) * this.options.cellSize,
+      y: (cell.y + 0.5) * this.options.cellSize,
+    };
+  }
+}
+
+function pushNode(heap: PathNode[], node: PathNode): void {
+  heap.push(node);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].f <= heap[index].f) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+function popNode(heap: PathNode[]): PathNode {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+      if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+  return top;
+}
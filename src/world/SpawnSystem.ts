@@ -0,0 +1,251 @@
+import { EventBus } from "@/core/EventBus";
+import { GameSystem } from "@/core/SystemManager";
+import { EntitySnapshotData } from "@/entities/BaseEntity";
+import { EntityManager } from "@/entities/EntityManager";
+import { BiomeType, EntityType, Vector2, WorldChunk } from "@/types";
+import { RandomSource, RandomStreams } from "@/utils/RandomStreams";
+import { Pathfinder } from "./Pathfinder";
+import { WorldManager } from "./WorldManager";
+
+export interface SpawnEntry {
+  type: EntityType;
+  data?: EntitySnapshotData;
+  weight: number;
+  /** 敌对生物在夜晚权重加倍 */
+  hostile?: boolean;
+  /** 只在白天或夜晚出现，省略时全天出现 */
+  period?: "day" | "night";
+}
+
+export interface BiomeSpawnTable {
+  entries: SpawnEntry[];
+  /** 单个区块内最多容纳的实体数（包括非生成的实体） */
+  maxPerChunk: number;
+  /** 区块进入生成范围时，每个空位生成一只的概率（以 128 像素区块为基准） */
+  chance: number;
+}
+
+export interface SpawnSystemOptions {
+  /** 在该距离之外生成，避免生物凭空出现在屏幕上 */
+  minDistance: number;
+  maxDistance: number;
+  /** 非持久实体离玩家超过该距离时回收 */
+  despawnDistance: number;
+  /** 生成器同时维持的非持久实体上限 */
+  maxSpawned: number;
+  /** 检查间隔（毫秒） */
+  interval: number;
+}
+
+const DEFAULT_OPTIONS: SpawnSystemOptions = {
+  minDistance: 700,
+  maxDistance: 1000,
+  despawnDistance: 1500,
+  maxSpawned: 30,
+  interval: 1000,
+};
+
+const REFERENCE_CHUNK_SIZE = 128;
+const NIGHT_HOSTILE_WEIGHT = 2;
+const NIGHT_CHANCE_FACTOR = 1.5;
+const NIGHT_EXTRA_CAPACITY = 1;
+/** 在区块内寻找可通行位置的尝试次数 */
+const PLACEMENT_ATTEMPTS = 4;
+/** 生成位置与已有实体的最小间距，避免刚体重叠后被弹开 */
+const MIN_SEPARATION = 48;
+
+const lizard = (weight: number): SpawnEntry => ({ type: "enemy", data: { monsterName: "荒野巨蜥" }, weight, hostile: true });
+const wolf = (weight: number, period?: SpawnEntry["period"]): SpawnEntry => ({
+  type: "enemy",
+  data: { monsterName: "雪原狼" },
+  weight,
+  hostile: true,
+  period,
+});
+const frog = (weight: number): SpawnEntry => ({ type: "enemy", data: { monsterName: "沼泽毒蛙" }, weight, hostile: true });
+
+const DEFAULT_TABLES: Record<string, BiomeSpawnTable> = {
+  forest: { entries: [lizard(3), wolf(2, "night")], maxPerChunk: 1, chance: 0.06 },
+  plains: { entries: [lizard(2)], maxPerChunk: 1, chance: 0.03 },
+  desert: { entries: [lizard(1)], maxPerChunk: 1, chance: 0.02 },
+  tundra: { entries: [wolf(3)], maxPerChunk: 1, chance: 0.04 },
+  swamp: { entries: [frog(3), lizard(1)], maxPerChunk: 2, chance: 0.06 },
+};
+
+/**
+ * 按群系生成表在玩家周围的区块里生成生物，并回收远离玩家的非持久实体。
+ * 区块从外侧进入生成范围时按空位掷骰，夜晚敌对生物更多
+ */
+export class SpawnSystem implements GameSystem {
+  public readonly name = "spawner";
+  public readonly priority = 58;
+  public readonly dependsOn = ["world", "entities"];
+
+  private readonly tables = new Map<BiomeType, BiomeSpawnTable>(Object.entries(DEFAULT_TABLES));
+  private readonly options: SpawnSystemOptions;
+  private random: RandomSource;
+  /** 当前位于生成范围内的区块 */
+  private inRange = new Set<string>();
+  private timer = 0;
+
+  constructor(
+    private readonly entities: EntityManager,
+    private readonly world: WorldManager,
+    private readonly pathfinder: Pathfinder,
+    private readonly eventBus: EventBus,
+    random: RandomStreams,
+    options: Partial<SpawnSystemOptions> = {},
+  ) {
+    this.random = random.stream("spawn");
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  initialize(): void {
+    // 读档会替换全部非玩家实体，让范围内的区块重新掷骰
+    this.eventBus.on("save:loaded", () => {
+      this.inRange.clear();
+    });
+  }
+
+  update(delta: number): void {
+    this.timer -= delta;
+    if (this.timer > 0 || !this.entities.hasPlayer()) return;
+    this.timer = this.options.interval;
+
+    const center = this.entities.getPlayer().getBody().position;
+    this.despawnFarEntities(center);
+    this.populate(center);
+  }
+
+  /**
+   * 开始新世界时切换到新种子的随机数流，并重新计算生成范围
+   */
+  reset(random: RandomStreams): void {
+    this.random = random.stream("spawn");
+    this.inRange.clear();
+    this.timer = 0;
+  }
+
+  /**
+   * 注册或替换某个群系的生成表
+   */
+  setSpawnTable(biome: BiomeType, table: BiomeSpawnTable): void {
+    this.tables.set(biome, table);
+  }
+
+  /**
+   * 向群系的生成表追加条目，群系还没有生成表时以 defaults 创建
+   */
+  addSpawnEntries(biome: BiomeType, entries: SpawnEntry[], defaults: Omit<BiomeSpawnTable, "entries"> = { maxPerChunk: 1, chance: 0.03 }): () => void {
+    const table = this.tables.get(biome) ?? { ...defaults, entries: [] };
+    table.entries = [...table.entries, ...entries];
+    this.tables.set(biome, table);
+    return () => {
+      table.entries = table.entries.filter((entry) => !entries.includes(entry));
+    };
+  }
+
+  getSpawnTable(biome: BiomeType): BiomeSpawnTable | undefined {
+    return this.tables.get(biome);
+  }
+
+  countSpawned(): number {
+    return this.entities.query("spawned").length;
+  }
+
+  private despawnFarEntities(center: Vector2): void {
+    for (const entity of this.entities.query("spawned")) {
+      const { x, y } = entity.getBody().position;
+      if (Math.hypot(x - center.x, y - center.y) > this.options.despawnDistance) {
+        this.entities.removeEntity(entity.id);
+      }
+    }
+  }
+
+  private populate(center: Vector2): void {
+    const { minDistance, maxDistance } = this.options;
+    const chunkSize = this.world.getChunkSize();
+    const night = this.world.isNight();
+    let spawned = this.countSpawned();
+
+    const minX = Math.floor((center.x - maxDistance) / chunkSize);
+    const maxX = Math.floor((center.x + maxDistance) / chunkSize);
+    const minY = Math.floor((center.y - maxDistance) / chunkSize);
+    const maxY = Math.floor((center.y + maxDistance) / chunkSize);
+
+    const nextInRange = new Set<string>();
+    for (let gridX = minX; gridX <= maxX; gridX += 1) {
+      for (let gridY = minY; gridY <= maxY; gridY += 1) {
+        const chunk = this.world.findChunk(gridX, gridY);
+        if (!chunk) continue;
+
+        const chunkCenter = { x: (gridX + 0.5) * chunkSize, y: (gridY + 0.5) * chunkSize };
+        const distance = Math.hypot(chunkCenter.x - center.x, chunkCenter.y - center.y);
+        if (distance < minDistance || distance > maxDistance) continue;
+
+        nextInRange.add(chunk.id);
+        // 只在区块刚进入范围时掷骰，停在原地不会不断刷怪
+        if (this.inRange.has(chunk.id) || spawned >= this.options.maxSpawned) continue;
+        spawned += this.populateChunk(chunk, night, this.options.maxSpawned - spawned);
+      }
+    }
+    this.inRange = nextInRange;
+  }
+
+  private populateChunk(chunk: WorldChunk, night: boolean, budget: number): number {
+    const table = this.tables.get(chunk.biome);
+    if (!table || table.entries.length === 0) return 0;
+
+    const chunkSize = this.world.getChunkSize();
+    const capacity = table.maxPerChunk + (night ? NIGHT_EXTRA_CAPACITY : 0);
+    const free = Math.min(budget, capacity - chunk.entities.size);
+    // 概率按区块面积换算，保证不同区块尺寸下的生物密度一致
+    const areaScale = (chunkSize / REFERENCE_CHUNK_SIZE) ** 2;
+    const chance = Math.min(1, table.chance * areaScale * (night ? NIGHT_CHANCE_FACTOR : 1));
+
+    let count = 0;
+    for (let i = 0; i < free; i += 1) {
+      if (this.random() >= chance) continue;
+      const entry = this.pickEntry(table.entries, night);
+      const position = entry ? this.findPlacement(chunk, chunkSize) : null;
+      if (!entry || !position) continue;
+
+      try {
+        const entity = this.entities.spawn(entry.type, position, entry.data);
+        entity.addComponent("spawned", { chunkId: chunk.id });
+        count += 1;
+      } catch (error) {
+        console.error(`[SpawnSystem] 在区块 ${chunk.id} 生成 ${entry.type} 失败`, error);
+      }
+    }
+    return count;
+  }
+
+  private pickEntry(entries: SpawnEntry[], night: boolean): SpawnEntry | null {
+    const weighted = entries
+      .filter((entry) => !entry.period || (entry.period === "night") === night)
+      .map((entry) => ({ entry, weight: entry.weight * (night && entry.hostile ? NIGHT_HOSTILE_WEIGHT : 1) }));
+    const total = weighted.reduce((sum, { weight }) => sum + weight, 0);
+    if (total <= 0) return null;
+
+    let roll = this.random() * total;
+    for (const { entry, weight } of weighted) {
+      roll -= weight;
+      if (roll < 0) return entry;
+    }
+    return weighted[weighted.length - 1].entry;
+  }
+
+  private findPlacement(chunk: WorldChunk, chunkSize: number): Vector2 | null {
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt += 1) {
+      const position = {
+        x: (chunk.gridX + this.random()) * chunkSize,
+        y: (chunk.gridY + this.random()) * chunkSize,
+      };
+      if (!this.pathfinder.isWalkableAt(position)) continue;
+      if (this.entities.queryRadius(position, MIN_SEPARATION).length > 0) continue;
+      return position;
+    }
+    return null;
+  }
+}
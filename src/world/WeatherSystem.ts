@@ -1,5 +1,6 @@
 ﻿import { WeatherType } from "@/types";
 import { randRange } from "@/utils/MathUtils";
+import { RandomSource } from "@/utils/RandomStreams";
 
 export interface WeatherState {
   type: WeatherType;
@@ -16,6 +17,8 @@ const WEATHER_TRANSITIONS: Record<WeatherType, WeatherType[]> = {
   snow: ["snow", "clear", "fog"],
 };
 
+export const WEATHER_TYPES = Object.keys(WEATHER_TRANSITIONS) as WeatherType[];
+
 export class WeatherSystem {
   private current: WeatherState = {
     type: "clear",
@@ -25,52 +28,78 @@ export class WeatherSystem {
   };
   private timeUntilChange = 0;
 
+  /**
+   * forceRandom 只供 force() 使用：控制台等外部强制切换不会被回放，
+   * 不能消耗自然变化所用的随机数流，否则回放会从切换处开始偏离
+   */
+  constructor(
+    private readonly random: RandomSource = Math.random,
+    private readonly forceRandom: RandomSource = random,
+  ) {}
+
   initialize(): void {
-    this.timeUntilChange = randRange(30, 120);
+    this.timeUntilChange = randRange(30, 120, this.random);
   }
 
   update(deltaSeconds: number): void {
     this.timeUntilChange -= deltaSeconds;
     if (this.timeUntilChange > 0) return;
 
-    this.timeUntilChange = randRange(45, 180);
+    this.timeUntilChange = randRange(45, 180, this.random);
     const candidates = WEATHER_TRANSITIONS[this.current.type];
-    const nextType = candidates[Math.floor(Math.random() * candidates.length)];
-    this.current = this.generateState(nextType);
+    const nextType = candidates[Math.floor(this.random() * candidates.length)];
+    this.current = this.generateState(nextType, this.random);
   }
 
   getState(): WeatherState {
     return this.current;
   }
 
-  private generateState(type: WeatherType): WeatherState {
+  getTimeUntilChange(): number {
+    return this.timeUntilChange;
+  }
+
+  /**
+   * 立即切换到指定天气，并重新计时下一次变化
+   */
+  force(type: WeatherType): void {
+    this.current = this.generateState(type, this.forceRandom);
+    this.timeUntilChange = randRange(45, 180, this.forceRandom);
+  }
+
+  restore(state: WeatherState, timeUntilChange: number): void {
+    this.current = { ...state };
+    this.timeUntilChange = timeUntilChange;
+  }
+
+  private generateState(type: WeatherType, random: RandomSource): WeatherState {
     switch (type) {
       case "rain":
         return {
           type,
-          intensity: randRange(0.2, 0.8),
-          temperatureOffset: randRange(-2, 2),
+          intensity: randRange(0.2, 0.8, random),
+          temperatureOffset: randRange(-2, 2, random),
           visibility: 0.7,
         };
       case "storm":
         return {
           type,
-          intensity: randRange(0.7, 1),
-          temperatureOffset: randRange(-3, 1),
+          intensity: randRange(0.7, 1, random),
+          temperatureOffset: randRange(-3, 1, random),
           visibility: 0.5,
         };
       case "fog":
         return {
           type,
-          intensity: randRange(0.4, 0.9),
-          temperatureOffset: randRange(-1, 1),
+          intensity: randRange(0.4, 0.9, random),
+          temperatureOffset: randRange(-1, 1, random),
           visibility: 0.4,
         };
       case "snow":
         return {
           type,
-          intensity: randRange(0.3, 0.7),
-          temperatureOffset: randRange(-10, -3),
+          intensity: randRange(0.3, 0.7, random),
+          temperatureOffset: randRange(-10, -3, random),
           visibility: 0.6,
         };
       default:
@@ -82,4 +111,4 @@ export class WeatherSystem {
         };
     }
   }
-}
+}
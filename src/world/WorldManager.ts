@@ -1,10 +1,12 @@
+import worldLocations from "@/data/world/locations.json";
 import { EventBus } from "@/core/EventBus";
 import { GameSystem } from "@/core/SystemManager";
-import { GameConfig, Vector2, WorldChunk } from "@/types";
+import { GameConfig, Vector2, WeatherType, WorldChunk } from "@/types";
 import { ChunkManager, ChunkManagerOptions } from "./ChunkManager";
-import { BiomeSystem } from "./BiomeSystem";
+import { BiomeProperties, BiomeSystem } from "./BiomeSystem";
 import { WeatherState, WeatherSystem } from "./WeatherSystem";
 import { TerrainRenderer } from "@/rendering/TerrainRenderer";
+import { RandomStreams } from "@/utils/RandomStreams";
 
 export interface WorldState {
   timeOfDay: number;
@@ -13,27 +15,58 @@ export interface WorldState {
   activeChunks: WorldChunk[];
 }
 
+export interface WorldSnapshot {
+  seed: number;
+  timeOfDay: number;
+  dayCount: number;
+  weather: WeatherState;
+  weatherTimer: number;
+}
+
+/**
+ * 校验世界数据中的命名地点（名称到坐标），列出全部问题后一次性报错
+ */
+export function parseLocations(data: unknown, source: string): Record<string, Vector2> {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Invalid locations in ${source}: expected an object of name to position`);
+  }
+
+  const errors = Object.entries(data)
+    .filter(([, position]) => typeof position?.x !== "number" || typeof position?.y !== "number")
+    .map(([name]) => `${name}: must be an object with numeric x and y`);
+  if (errors.length > 0) {
+    throw new Error(`Invalid locations in ${source}:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+  }
+  return data as Record<string, Vector2>;
+}
+
 export class WorldManager implements GameSystem {
   public readonly name = "world";
   public readonly priority = 80;
 
-  private readonly chunkManager: ChunkManager;
+  private chunkManager: ChunkManager;
   private readonly biomeSystem = new BiomeSystem();
-  private readonly weatherSystem = new WeatherSystem();
+  private weatherSystem: WeatherSystem;
   private terrainRenderer?: TerrainRenderer;
+  /** 实体ID到其所在区块，用于维护 WorldChunk.entities */
+  private readonly entityChunks = new Map<string, WorldChunk>();
+  /** 命名地点（如 smithy、village_square），供 NPC 日程和行为目标使用 */
+  private readonly locations = new Map<string, Vector2>(
+    Object.entries(parseLocations(worldLocations, "data/world/locations.json")),
+  );
 
   private timeOfDay = 12; // 0-24
   private dayCount = 0;
 
   private readonly dayLengthSeconds = 20 * 60; // 20 minutes per in-game day
 
-  constructor(private readonly config: GameConfig, private readonly eventBus: EventBus) {
-    const chunkOptions: ChunkManagerOptions = {
-      chunkSize: config.chunkSizeMeters,
-      viewDistance: 2,
-      seed: config.seed,
-    };
-    this.chunkManager = new ChunkManager(chunkOptions);
+  constructor(
+    private readonly config: GameConfig,
+    private readonly eventBus: EventBus,
+    random: RandomStreams = new RandomStreams(config.seed),
+  ) {
+    this.weatherSystem = new WeatherSystem(random.stream("weather"), random.stream("weather-command"));
+    this.chunkManager = this.createChunkManager();
   }
 
   initialize(): void {
@@ -42,18 +75,30 @@ export class WorldManager implements GameSystem {
     console.log('[WorldManager] 世界管理器初始化完成');
   }
 
-  async preloadMapAndRender(terrainRenderer: TerrainRenderer): Promise<void> {
+  /**
+   * 预加载地图；未传入地形渲染器时（无头模式）只生成区块数据
+   */
+  async preloadMapAndRender(
+    terrainRenderer?: TerrainRenderer,
+    onProgress?: (progress: number) => void,
+  ): Promise<void> {
     console.log('[WorldManager] 开始预加载地图和渲染...');
     this.terrainRenderer = terrainRenderer;
+    this.terrainRenderer?.setBiomeSystem(this.biomeSystem);
     
     // 预加载整个地图
     console.log('[WorldManager] 开始预加载地图...');
-    await this.chunkManager.preloadMap();
+    await this.chunkManager.preloadMap(onProgress);
+
+    if (!this.terrainRenderer) {
+      console.log('[WorldManager] 无地形渲染器，跳过区块渲染');
+      return;
+    }
     
     // 批量渲染所有预加载的区块
     console.log('[WorldManager] 开始渲染预加载的区块...');
     const allChunks = this.chunkManager.getAllChunks();
-    this.terrainRenderer.renderChunks(allChunks);
+    this.terrainRenderer.renderChunks(allChunks, this.config.chunkSize);
     console.log(`[WorldManager] 已渲染 ${allChunks.length} 个区块`);
     
     console.log('[WorldManager] 地图预加载和渲染完成');
@@ -61,6 +106,20 @@ export class WorldManager implements GameSystem {
 
 
 
+  /**
+   * 以新的种子重建世界：丢弃已生成的区块与地形图形，时间和天气回到初始状态
+   */
+  reset(seed: number, random: RandomStreams): void {
+    this.config.seed = seed;
+    this.chunkManager = this.createChunkManager();
+    this.weatherSystem = new WeatherSystem(random.stream("weather"), random.stream("weather-command"));
+    this.weatherSystem.initialize();
+    this.timeOfDay = 12;
+    this.dayCount = 0;
+    this.entityChunks.clear();
+    this.terrainRenderer?.clear();
+  }
+
   update(deltaMs: number): void {
     const deltaSeconds = deltaMs / 1000;
     this.weatherSystem.update(deltaSeconds);
@@ -73,11 +132,6 @@ export class WorldManager implements GameSystem {
 
   focusPosition(position: Vector2): void {
     console.log(`[WorldManager] focusPosition 被调用，位置: (${position.x}, ${position.y})`);
-    
-    if (!this.terrainRenderer) {
-      console.warn('[WorldManager] terrainRenderer 未设置，无法渲染地形');
-      return;
-    }
 
     // 如果地图已预加载，则不需要动态处理区块
     if (this.chunkManager.isMapPreloaded()) {
@@ -85,15 +139,18 @@ export class WorldManager implements GameSystem {
       return;
     }
 
-    console.log(`[WorldManager] terrainRenderer 已设置: ${this.terrainRenderer ? 'true' : 'false'}`);
-
     // 更新区块管理器（仅在未预加载时）
     this.chunkManager.update(position);
 
+    // 无头模式下只维护区块数据，不渲染地形
+    if (!this.terrainRenderer) {
+      return;
+    }
+
     // 获取当前需要渲染的区块
-    const chunkX = Math.floor(position.x / 64);
-    const chunkZ = Math.floor(position.y / 64);
-    const viewDistance = 5;
+    const { chunkSize, viewDistance } = this.config;
+    const chunkX = Math.floor(position.x / chunkSize);
+    const chunkZ = Math.floor(position.y / chunkSize);
 
     console.log(`[WorldManager] 当前区块坐标: (${chunkX}, ${chunkZ}), 视距: ${viewDistance}`);
 
@@ -103,7 +160,7 @@ export class WorldManager implements GameSystem {
         const chunk = this.chunkManager.getChunk(x, z);
         if (chunk) {
           console.log(`[WorldManager] 渲染区块: (${x}, ${z})`);
-          this.terrainRenderer.renderChunk(chunk);
+          this.terrainRenderer.renderChunk(chunk, chunkSize);
         } else {
           console.log(`[WorldManager] 区块不存在: (${x}, ${z})`);
         }
@@ -113,10 +170,114 @@ export class WorldManager implements GameSystem {
     console.log('[WorldManager] focusPosition 处理完成');
   }
 
+  isMapLoaded(): boolean {
+    return this.chunkManager.isMapPreloaded();
+  }
+
   getChunkAt(position: Vector2): WorldChunk {
     return this.chunkManager.getChunkAt(position);
   }
 
+  /**
+   * 已加载区块中的某一个，位于地图之外时返回 undefined
+   */
+  findChunk(gridX: number, gridY: number): WorldChunk | undefined {
+    return this.chunkManager.getChunk(gridX, gridY);
+  }
+
+  /**
+   * 把实体登记到所在区块的 entities 中，实体跨区块移动时随之迁移
+   */
+  trackEntity(entityId: string, position: Vector2): void {
+    const chunk = this.chunkManager.findChunkAt(position);
+    const previous = this.entityChunks.get(entityId);
+    if (previous === chunk) return;
+
+    previous?.entities.delete(entityId);
+    if (chunk) {
+      chunk.entities.add(entityId);
+      this.entityChunks.set(entityId, chunk);
+    } else {
+      this.entityChunks.delete(entityId);
+    }
+  }
+
+  untrackEntity(entityId: string): void {
+    this.entityChunks.get(entityId)?.entities.delete(entityId);
+    this.entityChunks.delete(entityId);
+  }
+
+  setTimeOfDay(hours: number): void {
+    this.timeOfDay = ((hours % 24) + 24) % 24;
+  }
+
+  setDayCount(dayCount: number): void {
+    this.dayCount = Math.max(0, Math.floor(dayCount));
+  }
+
+  setWeather(type: WeatherType): void {
+    this.weatherSystem.force(type);
+  }
+
+  /**
+   * 把经过的真实毫秒换算为游戏内的小时数
+   */
+  toGameHours(deltaMs: number): number {
+    return deltaMs / 1000 / this.dayLengthSeconds * 24;
+  }
+
+  /**
+   * 把游戏内的小时数换算为真实毫秒
+   */
+  fromGameHours(hours: number): number {
+    return hours / 24 * this.dayLengthSeconds * 1000;
+  }
+
+  /**
+   * 注册或覆盖命名地点，返回的函数撤销本次注册并恢复被覆盖的地点
+   */
+  registerLocation(name: string, position: Vector2): () => void {
+    const previous = this.locations.get(name);
+    const location = { ...position };
+    this.locations.set(name, location);
+    return () => {
+      if (this.locations.get(name) !== location) return;
+      if (previous) {
+        this.locations.set(name, previous);
+      } else {
+        this.locations.delete(name);
+      }
+    };
+  }
+
+  getLocation(name: string): Vector2 | null {
+    const position = this.locations.get(name);
+    return position ? { ...position } : null;
+  }
+
+  listLocations(): string[] {
+    return [...this.locations.keys()];
+  }
+
+  getChunkSize(): number {
+    return this.config.chunkSize;
+  }
+
+  /**
+   * 20:00 至次日 6:00 视为夜晚
+   */
+  isNight(): boolean {
+    return this.timeOfDay >= 20 || this.timeOfDay < 6;
+  }
+
+  getBiomeSystem(): BiomeSystem {
+    return this.biomeSystem;
+  }
+
+  getBiomePropertiesAt(position: Vector2): BiomeProperties {
+    return this.biomeSystem.getProperties(this.getChunkAt(position).biome);
+  }
+
   getWeatherState(): WeatherState {
     return this.weatherSystem.getState();
   }
@@ -130,6 +291,35 @@ export class WorldManager implements GameSystem {
     };
   }
 
+  serialize(): WorldSnapshot {
+    return {
+      seed: this.config.seed,
+      timeOfDay: this.timeOfDay,
+      dayCount: this.dayCount,
+      weather: { ...this.weatherSystem.getState() },
+      weatherTimer: this.weatherSystem.getTimeUntilChange(),
+    };
+  }
+
+  restore(snapshot: WorldSnapshot): void {
+    if (snapshot.seed !== this.config.seed) {
+      console.warn(`[WorldManager] 存档种子 ${snapshot.seed} 与当前世界种子 ${this.config.seed} 不一致，地形可能不同`);
+    }
+    this.timeOfDay = snapshot.timeOfDay;
+    this.dayCount = snapshot.dayCount;
+    this.weatherSystem.restore(snapshot.weather, snapshot.weatherTimer);
+  }
+
+  private createChunkManager(): ChunkManager {
+    const chunkOptions: ChunkManagerOptions = {
+      chunkSize: this.config.chunkSize,
+      mapSize: this.config.mapSizeChunks,
+      viewDistance: this.config.viewDistance,
+      seed: this.config.seed,
+    };
+    return new ChunkManager(chunkOptions, this.biomeSystem);
+  }
+
   private advanceTime(deltaSeconds: number): void {
     const dayProgress = deltaSeconds / this.dayLengthSeconds * 24;
     this.timeOfDay += dayProgress;